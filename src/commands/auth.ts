@@ -1,9 +1,252 @@
 import { Command } from 'commander';
 import { input, password } from '@inquirer/prompts';
-import ora from 'ora';
-import { authenticate, getTokenExpiry } from '../lib/auth.js';
-import { getAuthConfig, clearAuthConfig, isAuthenticated, setConfig } from '../lib/config.js';
-import { success, error, detail, header } from '../lib/output.js';
+import chalk from 'chalk';
+import {
+  authenticate,
+  authenticateWithPassword,
+  startDeviceAuthorization,
+  pollDeviceToken,
+  importToken,
+  readTokenFile,
+  getLoginHint,
+  getTokenExpiry,
+  getRefreshTokenExpiry,
+  isRefreshTokenExpiring,
+} from '../lib/auth.js';
+import {
+  loadAuth,
+  clearAuth,
+  resolveCredentials,
+  setCredentialStore,
+  setStorePassphrase,
+  hasStorePassphrase,
+  isEncryptedStore,
+  getStorePath,
+} from '../lib/credentials.js';
+import { getAuthConfig, getConfig, setConfig, getActiveProfile } from '../lib/config.js';
+import type { CredentialStoreKind } from '../lib/config.js';
+import { CliError, ExitCode } from '../lib/errors.js';
+import { decodeJwt, describeToken } from '../lib/jwt.js';
+import type { TokenInfo } from '../lib/jwt.js';
+import { success, error, warn, info, detail, header, fail, isFormattedOutput, output } from '../lib/output.js';
+import { startSpinner, ensureInteractive } from '../lib/interactive.js';
+import type { TokenResponse } from '../types/index.js';
+
+/**
+ * Ask for the encrypted store passphrase when no env var or key file provides it
+ */
+async function unlockStore(encrypted: boolean): Promise<void> {
+  if (!encrypted || hasStorePassphrase()) return;
+
+  ensureInteractive('the store passphrase', 'set MYDEVICES_PASSPHRASE or MYDEVICES_KEY_FILE');
+  const passphrase = await password({
+    message: 'Passphrase for the encrypted credential store:',
+    validate: (value) => (value.length > 0 ? true : 'Passphrase is required'),
+  });
+  setStorePassphrase(passphrase);
+}
+
+function formatTime(date: Date | undefined): string | undefined {
+  return date ? date.toLocaleString() : undefined;
+}
+
+function showTokenInfo(info: TokenInfo): void {
+  detail('Issuer', info.issuer);
+  detail('Token realm', info.realm);
+  detail('Token client', info.client);
+  detail('Subject', info.subject);
+  if (info.username) {
+    detail('Username', info.username);
+  }
+  detail('Roles', info.roles.join(', ') || '(none)');
+  detail('Scopes', info.scopes.join(' ') || '(none)');
+  detail('Issued at', formatTime(info.issuedAt));
+  detail('Expires at', formatTime(info.expiresAt));
+}
+
+function showRefreshExpiry(): void {
+  const refresh = getRefreshTokenExpiry();
+  detail(
+    'Refresh token',
+    !refresh ? 'No fixed expiry' : refresh.expiresIn === 'expired' ? 'Expired' : `Valid (expires in ${refresh.expiresIn})`
+  );
+}
+
+/**
+ * Warn while there is still time to act. Service clients fall back to their
+ * credentials once it expires; user sessions have to sign in again.
+ */
+function warnRefreshExpiring(): void {
+  const refresh = getRefreshTokenExpiry();
+  if (refresh && refresh.expiresIn !== 'expired' && isRefreshTokenExpiring()) {
+    const action = getConfig('grantType') === 'client_credentials'
+      ? `Run "${getLoginHint()}" if the client secret is not saved.`
+      : `Run "${getLoginHint()}" to stay signed in.`;
+    warn(`Refresh token expires in ${refresh.expiresIn}. ${action}`);
+  }
+}
+
+interface LoginOptions {
+  realm?: string;
+  clientId?: string;
+  clientSecret?: string;
+  grant?: string;
+  username?: string;
+  tokenFile?: string;
+  tokenStdin?: boolean;
+  passwordStdin?: boolean;
+  store?: string;
+}
+
+const LOGIN_GRANTS = ['client_credentials', 'password', 'device'];
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function promptRealm(realm?: string): Promise<string> {
+  if (realm) return realm;
+  ensureInteractive('the realm', 'pass --realm or set MYDEVICES_REALM');
+  return input({
+    message: 'Enter your realm:',
+    validate: (value) => (value.length > 0 ? true : 'Realm is required'),
+  });
+}
+
+async function promptClientId(clientId?: string): Promise<string> {
+  if (clientId) return clientId;
+  ensureInteractive('the client ID', 'pass --client-id');
+  return input({
+    message: 'Enter your Client ID:',
+    validate: (value) => (value.length > 0 ? true : 'Client ID is required'),
+  });
+}
+
+function showLoginResult(tokenData: TokenResponse): void {
+  success('Login successful!');
+  detail('Profile', getActiveProfile());
+  const hours = Math.floor(tokenData.expires_in / 3600);
+  detail('Token expires in', `${hours} hours`);
+}
+
+async function loginWithClientCredentials(options: LoginOptions): Promise<void> {
+  // Env vars or credential_process, unless credentials are given as flags
+  const live = options.clientId || options.clientSecret
+    ? null
+    : await resolveCredentials({ includeStored: false });
+
+  const realm = await promptRealm(options.realm || live?.realm || process.env.MYDEVICES_REALM);
+  const clientId = await promptClientId(options.clientId || live?.clientId);
+  let clientSecret = options.clientSecret || live?.clientSecret;
+
+  // Interactive prompt if not provided
+  if (!clientSecret) {
+    ensureInteractive('the client secret', 'pass --client-secret or set MYDEVICES_CLIENT_SECRET');
+    clientSecret = await password({
+      message: 'Enter your Client Secret:',
+      validate: (value) => (value.length > 0 ? true : 'Client Secret is required'),
+    });
+  }
+
+  // Store realm in config
+  setConfig('realm', realm);
+
+  const spinner = startSpinner('Authenticating...');
+
+  try {
+    const tokenData = await authenticate(
+      { realm, clientId, clientSecret },
+      { saveSecret: !live }
+    );
+    spinner.stop();
+
+    showLoginResult(tokenData);
+    if (live) {
+      detail('Credentials', `from ${live.source} (not saved)`);
+    } else {
+      detail('Credentials saved', isEncryptedStore() ? `yes (encrypted, ${getStorePath()})` : 'yes');
+    }
+  } catch (err) {
+    spinner.stop();
+    throw err;
+  }
+}
+
+/**
+ * Sign in with a user account. The client is usually a public one, so the
+ * secret is only sent when given as a flag.
+ */
+async function loginAsUser(grant: 'password' | 'device', options: LoginOptions): Promise<void> {
+  const realm = await promptRealm(options.realm || process.env.MYDEVICES_REALM);
+  const clientId = await promptClientId(options.clientId);
+  const creds = { realm, clientId, clientSecret: options.clientSecret || '' };
+
+  setConfig('realm', realm);
+
+  if (grant === 'password') {
+    if (!options.username) {
+      ensureInteractive('the username', 'pass --username');
+    }
+    const username = options.username || await input({
+      message: 'Enter your username:',
+      default: getConfig('username') || undefined,
+      validate: (value) => (value.length > 0 ? true : 'Username is required'),
+    });
+    if (!options.passwordStdin) {
+      ensureInteractive('the password', 'pass --password-stdin and pipe the password in');
+    }
+    const userPassword = options.passwordStdin
+      ? (await readStdin()).replace(/\r?\n$/, '')
+      : await password({
+          message: 'Enter your password:',
+          validate: (value) => (value.length > 0 ? true : 'Password is required'),
+        });
+
+    const spinner = startSpinner('Authenticating...');
+    try {
+      const tokenData = await authenticateWithPassword({ ...creds, username, password: userPassword });
+      spinner.stop();
+      showLoginResult(tokenData);
+      detail('User', username);
+    } catch (err) {
+      spinner.stop();
+      throw err;
+    }
+    return;
+  }
+
+  const authorization = await startDeviceAuthorization(creds);
+  info(`Open ${chalk.cyan(authorization.verification_uri_complete || authorization.verification_uri)} in a browser`);
+  info(`and confirm the code ${chalk.bold(authorization.user_code)}`);
+
+  const spinner = startSpinner('Waiting for approval...');
+  try {
+    const tokenData = await pollDeviceToken(creds, authorization);
+    spinner.stop();
+    showLoginResult(tokenData);
+  } catch (err) {
+    spinner.stop();
+    throw err;
+  }
+}
+
+async function loginWithToken(options: LoginOptions): Promise<void> {
+  const token = options.tokenFile ? readTokenFile(options.tokenFile) : await readStdin();
+  const tokenInfo = importToken(token, { tokenFile: options.tokenFile });
+
+  success('Token accepted');
+  detail('Profile', getActiveProfile());
+  detail('Token realm', tokenInfo.realm);
+  detail('Token client', tokenInfo.client);
+  detail('Expires at', formatTime(tokenInfo.expiresAt));
+  if (options.tokenFile) {
+    detail('Token file', `${options.tokenFile} (re-read when the token expires)`);
+  }
+}
 
 export function createAuthCommands(): Command {
   const auth = new Command('auth').description('Authentication commands');
@@ -14,59 +257,48 @@ export function createAuthCommands(): Command {
     .option('-r, --realm <realm>', 'Your realm name')
     .option('-c, --client-id <clientId>', 'Your client ID')
     .option('-s, --client-secret <clientSecret>', 'Your client secret')
-    .action(async (options) => {
+    .option('--grant <type>', 'How to sign in (client_credentials, password, device)')
+    .option('-u, --username <username>', 'User name (with --grant password)')
+    .option('--password-stdin', 'Read the password from stdin (with --grant password)')
+    .option('--token-file <file>', 'Use an access token read from a file (re-read when it expires)')
+    .option('--token-stdin', 'Use an access token read from stdin')
+    .option('--store <kind>', 'Where to keep the secret and tokens (plaintext, encrypted)')
+    .action(async (options: LoginOptions) => {
       try {
-        // Get credentials from flags, env vars, or prompts
-        let realm = options.realm || process.env.MYDEVICES_REALM;
-        let clientId = options.clientId || process.env.MYDEVICES_CLIENT_ID;
-        let clientSecret = options.clientSecret || process.env.MYDEVICES_CLIENT_SECRET;
-
-        // Interactive prompts if not provided
-        if (!realm) {
-          realm = await input({
-            message: 'Enter your realm:',
-            validate: (value) => (value.length > 0 ? true : 'Realm is required'),
-          });
+        const injected = options.tokenFile || options.tokenStdin;
+        if (options.tokenFile && options.tokenStdin) {
+          fail(new CliError('Use either --token-file or --token-stdin, not both', 'validation'), 'Invalid option');
         }
-
-        if (!clientId) {
-          clientId = await input({
-            message: 'Enter your Client ID:',
-            validate: (value) => (value.length > 0 ? true : 'Client ID is required'),
-          });
+        if (options.passwordStdin && (options.grant !== 'password' || options.tokenStdin)) {
+          fail(new CliError('--password-stdin requires --grant password', 'validation'), 'Missing required option');
         }
-
-        if (!clientSecret) {
-          clientSecret = await password({
-            message: 'Enter your Client Secret:',
-            validate: (value) => (value.length > 0 ? true : 'Client Secret is required'),
-          });
+        if (injected && options.grant) {
+          fail(new CliError('--grant cannot be combined with --token-file or --token-stdin', 'validation'), 'Invalid option');
+        }
+        const grant = options.grant || 'client_credentials';
+        if (!LOGIN_GRANTS.includes(grant)) {
+          fail(new CliError(`--grant must be one of: ${LOGIN_GRANTS.join(', ')}`, 'validation'), 'Invalid option');
         }
 
-        // Store realm in config
-        setConfig('realm', realm);
-
-        const spinner = ora('Authenticating...').start();
-
-        try {
-          const tokenData = await authenticate(realm, clientId, clientSecret);
-          spinner.stop();
-
-          success('Login successful!');
-          const hours = Math.floor(tokenData.expires_in / 3600);
-          detail('Token expires in', `${hours} hours`);
-          detail('Credentials saved', 'yes');
-        } catch (err) {
-          spinner.stop();
-          throw err;
+        if (options.store) {
+          if (!['plaintext', 'encrypted'].includes(options.store)) {
+            fail(new CliError('--store must be "plaintext" or "encrypted"', 'validation'), 'Invalid option');
+          }
+          await unlockStore(options.store === 'encrypted');
+          setCredentialStore(options.store as CredentialStoreKind);
+        } else {
+          await unlockStore(isEncryptedStore());
         }
-      } catch (err) {
-        if (err instanceof Error) {
-          error(err.message);
+
+        if (injected) {
+          await loginWithToken(options);
+        } else if (grant === 'client_credentials') {
+          await loginWithClientCredentials(options);
         } else {
-          error('Authentication failed');
+          await loginAsUser(grant as 'password' | 'device', options);
         }
-        process.exit(1);
+      } catch (err) {
+        fail(err, 'Authentication failed');
       }
     });
 
@@ -74,8 +306,8 @@ export function createAuthCommands(): Command {
     .command('logout')
     .description('Clear stored credentials')
     .action(() => {
-      clearAuthConfig();
-      success('Logged out successfully. Credentials cleared.');
+      clearAuth();
+      success(`Logged out successfully. Credentials cleared for profile "${getActiveProfile()}".`);
     });
 
   auth
@@ -84,39 +316,106 @@ export function createAuthCommands(): Command {
     .action(() => {
       const authConfig = getAuthConfig();
 
-      if (!authConfig.accessToken) {
+      if (!authConfig.expiresAt) {
         error('Not authenticated');
         console.log('  Run "mydevices auth login" to authenticate');
-        process.exit(1);
+        process.exit(ExitCode.AUTH);
       }
 
       header('Authentication Status');
+      detail('Profile', getActiveProfile());
       detail('Realm', authConfig.realm);
       detail('Client ID', authConfig.clientId);
+      detail('Grant', getConfig('grantType'));
+      if (getConfig('grantType') === 'password') {
+        detail('User', getConfig('username'));
+      }
+      if (getConfig('tokenFile')) {
+        detail('Token file', getConfig('tokenFile'));
+      }
+      detail('Credential store', getConfig('credentialStore'));
 
       const expiry = getTokenExpiry();
       if (expiry) {
         const isExpired = expiry.expiresIn === 'expired';
         detail('Token', isExpired ? 'Expired' : `Valid (expires in ${expiry.expiresIn})`);
       }
+      showRefreshExpiry();
+
+      // Decoding needs the token itself, which may be locked in the encrypted store
+      let accessToken: string | undefined;
+      try {
+        accessToken = loadAuth().accessToken;
+      } catch {
+        detail('Token details', 'unavailable (credential store is locked)');
+      }
+      if (accessToken) {
+        try {
+          showTokenInfo(describeToken(decodeJwt(accessToken).claims));
+        } catch {
+          detail('Token details', 'unavailable (not a JWT)');
+        }
+      }
+
+      warnRefreshExpiring();
     });
 
   auth
     .command('token')
     .description('Print current access token')
-    .action(() => {
-      const authConfig = getAuthConfig();
+    .option('--decode', 'Show the claims of the token instead of the token itself')
+    .option('--json', 'Output as JSON (with --decode)')
+    .action((options: { decode?: boolean; json?: boolean }) => {
+      let authConfig;
+      try {
+        authConfig = loadAuth();
+      } catch (err) {
+        fail(err, 'Failed to read credentials');
+      }
 
       if (!authConfig.accessToken) {
         error('Not authenticated');
         console.log('  Run "mydevices auth login" to authenticate');
-        process.exit(1);
+        process.exit(ExitCode.AUTH);
+      }
+
+      const isExpired = !authConfig.expiresAt || authConfig.expiresAt <= Date.now();
+
+      // Expired tokens can still be decoded, which helps explain failures
+      if (options.decode) {
+        let decoded;
+        try {
+          decoded = decodeJwt(authConfig.accessToken);
+        } catch (err) {
+          fail(err, 'Failed to decode token');
+        }
+        const info = describeToken(decoded.claims);
+        const refresh = getRefreshTokenExpiry();
+
+        if (isFormattedOutput(options.json)) {
+          output({
+            ...info,
+            expired: isExpired,
+            refreshExpiresAt: refresh ? new Date(refresh.expiresAt).toISOString() : null,
+            refreshExpiring: isRefreshTokenExpiring(),
+            header: decoded.header,
+            claims: decoded.claims,
+          }, { json: options.json });
+          return;
+        }
+
+        header('Access Token');
+        showTokenInfo(info);
+        detail('Status', isExpired ? 'Expired' : `Valid (expires in ${getTokenExpiry()?.expiresIn})`);
+        showRefreshExpiry();
+        warnRefreshExpiring();
+        return;
       }
 
-      if (!isAuthenticated()) {
+      if (isExpired) {
         error('Token expired');
-        console.log('  Run "mydevices auth login" to re-authenticate');
-        process.exit(1);
+        console.log(`  Run "${getLoginHint()}" to re-authenticate`);
+        process.exit(ExitCode.AUTH);
       }
 
       console.log(authConfig.accessToken);
@@ -1,7 +1,6 @@
 import { Command } from 'commander';
 import { existsSync, readFileSync, writeFileSync } from 'fs';
 import chalk from 'chalk';
-import ora from 'ora';
 import { parseCSV, getDelimiterName } from '../lib/csv-parser.js';
 import {
   interactiveMapping,
@@ -25,8 +24,11 @@ import {
   promptFormSettings,
 } from '../lib/bulk-import.js';
 import { apiDelete } from '../lib/api.js';
+import { runPool, parseConcurrency, DEFAULT_CONCURRENCY, MAX_CONCURRENCY } from '../lib/pool.js';
 import { getConfig } from '../lib/config.js';
-import { error, success } from '../lib/output.js';
+import { CliError } from '../lib/errors.js';
+import { success, fail, isFormattedOutput, output } from '../lib/output.js';
+import { startSpinner, confirmAction } from '../lib/interactive.js';
 
 export function createBulkCommands(): Command {
   const bulk = new Command('bulk').description('Bulk operations for importing and managing data');
@@ -51,17 +53,17 @@ export function createBulkCommands(): Command {
     .option('--device-type-id <id>', 'Default device type/template ID for all devices')
     .option('--sensor-use <use>', 'Default sensor use for all devices')
     .option('--device-setting <key=value>', 'Device settings from form_settings (repeatable, e.g. --device-setting codec.timezone=UTC --device-setting codec.cost=1)', (val: string, prev: string[]) => { prev.push(val); return prev; }, [] as string[])
+    .option('--concurrency <n>', `Requests to run in parallel (1-${MAX_CONCURRENCY})`, parseConcurrency, DEFAULT_CONCURRENCY)
     .option('--json', 'Output results as JSON')
     .option('--output <file>', 'Save detailed results to file')
     .action(async (csvFile: string, options) => {
       // Validate CSV file exists
       if (!existsSync(csvFile)) {
-        error(`CSV file not found: ${csvFile}`);
-        process.exit(1);
+        fail(new CliError(`CSV file not found: ${csvFile}`, 'validation'), 'File not found');
       }
 
       // Parse CSV
-      const spinner = ora('Parsing CSV file...').start();
+      const spinner = startSpinner('Parsing CSV file...');
       let parsedCSV;
       try {
         parsedCSV = parseCSV(csvFile, options.delimiter);
@@ -71,8 +73,7 @@ export function createBulkCommands(): Command {
         );
       } catch (err) {
         spinner.fail('Failed to parse CSV');
-        error(err instanceof Error ? err.message : 'Unknown error');
-        process.exit(1);
+        fail(err, 'Unknown error');
       }
 
       // Display columns found
@@ -94,31 +95,29 @@ export function createBulkCommands(): Command {
           console.log(chalk.green(`\n✓ Loaded mapping from ${options.mapping}`));
           displayMappingSummary(mappings, hierarchy);
         } catch (err) {
-          error(err instanceof Error ? err.message : 'Failed to load mapping');
-          process.exit(1);
+          fail(err, 'Failed to load mapping');
         }
       } else {
         // Interactive mapping
-        const result = await interactiveMapping(parsedCSV.headers);
-        mappings = result.mappings;
-        hierarchy = result.hierarchy;
+        try {
+          const result = await interactiveMapping(parsedCSV.headers);
+          mappings = result.mappings;
+          hierarchy = result.hierarchy;
+        } catch (err) {
+          fail(err, 'Column mapping failed');
+        }
         displayMappingSummary(mappings, hierarchy);
       }
 
       // Validate mapping
       const validation = validateMapping(mappings, hierarchy);
       if (!validation.valid) {
-        console.log();
-        for (const err of validation.errors) {
-          error(err);
-        }
-        process.exit(1);
+        fail(new CliError(validation.errors.join('\n'), 'validation'), 'Invalid column mapping');
       }
 
       // Validate required options
       if (!options.company) {
-        error('--company <company-id> is required when creating locations');
-        process.exit(1);
+        fail(new CliError('--company <company-id> is required when creating locations', 'validation'), 'Missing required option');
       }
 
       // Optionally save mapping
@@ -148,7 +147,11 @@ export function createBulkCommands(): Command {
         };
       } else {
         // Prompt for defaults interactively
-        locationDefaults = await promptLocationDefaults(mappings);
+        try {
+          locationDefaults = await promptLocationDefaults(mappings);
+        } catch (err) {
+          fail(err, 'Failed to read location defaults');
+        }
       }
 
       // Transform rows
@@ -181,38 +184,45 @@ export function createBulkCommands(): Command {
               const value = setting.substring(eqIndex + 1);
               cliSettings[key] = value;
             } else {
-              error(`Invalid --device-setting format: "${setting}". Expected key=value`);
-              process.exit(1);
+              fail(new CliError(`Invalid --device-setting format: "${setting}". Expected key=value`, 'validation'), 'Invalid option');
             }
           }
         }
 
         // Fetch device type template
-        const templateSpinner = ora('Fetching device type template...').start();
+        const templateSpinner = startSpinner('Fetching device type template...');
+        let formFields: ReturnType<typeof extractFormSettings> = [];
         try {
           const template = await fetchDeviceType(options.deviceTypeId);
           templateSpinner.succeed(`Device type: ${template.name}`);
+          formFields = extractFormSettings(template);
+        } catch (err) {
+          templateSpinner.fail('Failed to fetch device type template');
+          fail(err, 'Unknown error');
+        }
 
-          // Extract and prompt for form_settings
-          const formFields = extractFormSettings(template);
-          if (formFields.length > 0) {
+        // Prompt for form_settings not given as --device-setting
+        if (formFields.length > 0) {
+          try {
             deviceSettings = await promptFormSettings(formFields, cliSettings);
-            console.log(chalk.green(`\n✓ ${Object.keys(deviceSettings).length} device settings configured`));
+          } catch (err) {
+            fail(err, 'Failed to read device settings');
           }
-        } catch (err) {
-          templateSpinner.fail('Failed to fetch device type template');
-          error(err instanceof Error ? err.message : 'Unknown error');
-          process.exit(1);
+          console.log(chalk.green(`\n✓ ${Object.keys(deviceSettings).length} device settings configured`));
         }
       }
 
       // Confirm import
       if (!options.dryRun) {
-        const { confirm } = await import('@inquirer/prompts');
-        const proceed = await confirm({
-          message: `Import ${transformedRows.length} rows${options.user ? ` to user ${options.user}` : ''}?`,
-          default: true,
-        });
+        let proceed = false;
+        try {
+          proceed = await confirmAction(
+            `Import ${transformedRows.length} rows${options.user ? ` to user ${options.user}` : ''}?`,
+            { default: true }
+          );
+        } catch (err) {
+          fail(err, 'Import not confirmed');
+        }
 
         if (!proceed) {
           console.log(chalk.yellow('Import cancelled'));
@@ -222,9 +232,9 @@ export function createBulkCommands(): Command {
 
       // Run import
       console.log();
-      const importSpinner = ora(
+      const importSpinner = startSpinner(
         options.dryRun ? 'Running dry-run validation...' : 'Importing data...'
-      ).start();
+      );
 
       try {
         const summary = await bulkImport(transformedRows, {
@@ -235,6 +245,7 @@ export function createBulkCommands(): Command {
           deviceTypeId: options.deviceTypeId,
           deviceSettings,
           prefixLocationName: options.locationPrefix !== false,
+          concurrency: options.concurrency,
           onProgress: (current, total, message) => {
             importSpinner.text = `${message} (${current}/${total})`;
           },
@@ -243,8 +254,8 @@ export function createBulkCommands(): Command {
         importSpinner.stop();
 
         // Output results
-        if (options.json) {
-          console.log(JSON.stringify(summary, null, 2));
+        if (isFormattedOutput(options.json)) {
+          output(summary, { json: options.json });
         } else {
           displayImportSummary(summary, options.dryRun || false);
         }
@@ -270,14 +281,14 @@ export function createBulkCommands(): Command {
           console.log(chalk.green(`\n✓ Results saved to ${options.output}`));
         }
 
-        // Exit with error code if there were failures
-        if (summary.locationsFailed > 0 || summary.devicesFailed > 0) {
-          process.exit(1);
+        // Exit with the partial-failure code if anything failed
+        const failedCount = summary.locationsFailed + summary.devicesFailed;
+        if (failedCount > 0) {
+          fail(new CliError(`${failedCount} item(s) failed to import`, 'partial_failure'), 'Import failed');
         }
       } catch (err) {
         importSpinner.fail('Import failed');
-        error(err instanceof Error ? err.message : 'Unknown error');
-        process.exit(1);
+        fail(err, 'Unknown error');
       }
     });
 
@@ -288,23 +299,24 @@ export function createBulkCommands(): Command {
     .option('--column <name>', 'CSV column containing hardware IDs (auto-detected if not specified)')
     .option('--delimiter <char>', 'Force CSV delimiter (auto-detect by default)')
     .option('--dry-run', 'Show what would be deactivated without making changes')
+    .option('--concurrency <n>', `Requests to run in parallel (1-${MAX_CONCURRENCY})`, parseConcurrency, DEFAULT_CONCURRENCY)
     .option('--json', 'Output results as JSON')
     .option('--output <file>', 'Save detailed results to file')
     .action(async (csvFile: string, options: {
       column?: string;
       delimiter?: string;
       dryRun?: boolean;
+      concurrency: number;
       json?: boolean;
       output?: string;
     }) => {
       // Validate CSV file exists
       if (!existsSync(csvFile)) {
-        error(`CSV file not found: ${csvFile}`);
-        process.exit(1);
+        fail(new CliError(`CSV file not found: ${csvFile}`, 'validation'), 'File not found');
       }
 
       // Parse CSV
-      const spinner = ora('Parsing CSV file...').start();
+      const spinner = startSpinner('Parsing CSV file...');
       let headers: string[];
       let rows: Record<string, string>[];
 
@@ -327,8 +339,7 @@ export function createBulkCommands(): Command {
           spinner.succeed(`Parsed ${rows.length} hardware IDs from text file`);
         } catch (err) {
           spinner.fail('Failed to parse file');
-          error(err instanceof Error ? err.message : 'Unknown error');
-          process.exit(1);
+          fail(err, 'Unknown error');
         }
       }
 
@@ -336,8 +347,7 @@ export function createBulkCommands(): Command {
       let euiColumn: string;
       if (options.column) {
         if (!headers.includes(options.column)) {
-          error(`Column "${options.column}" not found. Available columns: ${headers.join(', ')}`);
-          process.exit(1);
+          fail(new CliError(`Column "${options.column}" not found. Available columns: ${headers.join(', ')}`, 'validation'), 'Column not found');
         }
         euiColumn = options.column;
       } else {
@@ -349,11 +359,11 @@ export function createBulkCommands(): Command {
         } else if (headers.length === 1) {
           euiColumn = headers[0];
         } else {
-          error(
+          fail(new CliError(
             `Could not auto-detect hardware ID column. Available columns: ${headers.join(', ')}\n` +
-            `Use --column <name> to specify which column contains hardware IDs.`
-          );
-          process.exit(1);
+            `Use --column <name> to specify which column contains hardware IDs.`,
+            'validation'
+          ), 'Could not auto-detect hardware ID column');
         }
       }
 
@@ -363,8 +373,7 @@ export function createBulkCommands(): Command {
         .filter((eui) => eui && eui.length > 0);
 
       if (euis.length === 0) {
-        error(`No hardware IDs found in column "${euiColumn}"`);
-        process.exit(1);
+        fail(new CliError(`No hardware IDs found in column "${euiColumn}"`, 'validation'), 'No hardware IDs found');
       }
 
       console.log(chalk.cyan(`\nFound ${euis.length} hardware IDs in column "${euiColumn}"`));
@@ -380,11 +389,12 @@ export function createBulkCommands(): Command {
 
       // Confirm
       if (!options.dryRun) {
-        const { confirm } = await import('@inquirer/prompts');
-        const proceed = await confirm({
-          message: `Deactivate ${euis.length} devices?`,
-          default: false,
-        });
+        let proceed = false;
+        try {
+          proceed = await confirmAction(`Deactivate ${euis.length} devices?`);
+        } catch (err) {
+          fail(err, 'Deactivation not confirmed');
+        }
 
         if (!proceed) {
           console.log(chalk.yellow('Deactivation cancelled'));
@@ -398,40 +408,46 @@ export function createBulkCommands(): Command {
       let deactivated = 0;
       let failed = 0;
 
-      const deactivateSpinner = ora(
+      const deactivateSpinner = startSpinner(
         options.dryRun ? 'Running dry-run validation...' : 'Deactivating devices...'
-      ).start();
+      );
 
-      for (let i = 0; i < euis.length; i++) {
-        const eui = euis[i];
-        deactivateSpinner.text = options.dryRun
-          ? `Dry run: ${i + 1}/${euis.length}`
-          : `Deactivating ${i + 1}/${euis.length} (${eui})`;
-
-        if (options.dryRun) {
+      if (options.dryRun) {
+        for (const eui of euis) {
           results.push({ eui, success: true });
           deactivated++;
-          continue;
         }
-
-        try {
-          await apiDelete(
+      } else {
+        const outcomes = await runPool(
+          euis,
+          (eui) => apiDelete(
             `/v1.1/organizations/${clientId}/applications/${clientId}/things/${eui}/unpair`
-          );
-          results.push({ eui, success: true });
-          deactivated++;
-        } catch (err) {
-          const message = err instanceof Error ? err.message : 'Unknown error';
-          results.push({ eui, success: false, error: message });
-          failed++;
-        }
+          ),
+          {
+            concurrency: options.concurrency,
+            onSettled: (done, total, eui) => {
+              deactivateSpinner.text = `Deactivating ${done}/${total} (${eui})`;
+            },
+          }
+        );
+
+        outcomes.forEach((outcome, i) => {
+          if (outcome.ok) {
+            results.push({ eui: euis[i], success: true });
+            deactivated++;
+          } else {
+            const message = outcome.error instanceof Error ? outcome.error.message : 'Unknown error';
+            results.push({ eui: euis[i], success: false, error: message });
+            failed++;
+          }
+        });
       }
 
       deactivateSpinner.stop();
 
       // Display summary
-      if (options.json) {
-        console.log(JSON.stringify({ deactivated, failed, results }, null, 2));
+      if (isFormattedOutput(options.json)) {
+        output({ deactivated, failed, results }, { json: options.json });
       } else {
         console.log();
         console.log(chalk.cyan(options.dryRun ? 'Dry Run Complete' : 'Deactivation Complete'));
@@ -466,9 +482,9 @@ export function createBulkCommands(): Command {
         success(`Results saved to ${options.output}`);
       }
 
-      // Exit with error code if there were failures
+      // Exit with the partial-failure code if anything failed
       if (failed > 0) {
-        process.exit(1);
+        fail(new CliError(`${failed} of ${euis.length} device(s) failed to deactivate`, 'partial_failure'), 'Deactivation failed');
       }
     });
 
@@ -0,0 +1,63 @@
+import { Command } from 'commander';
+import { clearCache, getCacheStats, getCacheDir, CACHE_RESOURCES } from '../lib/cache.js';
+import type { CacheResource, CacheStats } from '../lib/cache.js';
+import { CliError } from '../lib/errors.js';
+import { output, success, fail } from '../lib/output.js';
+
+function formatTtl(seconds: number): string {
+  return seconds % 3600 === 0 ? `${seconds / 3600}h` : `${Math.round(seconds / 60)}m`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function createCacheCommands(): Command {
+  const cache = new Command('cache').description('Manage the local cache of reference data');
+
+  cache
+    .command('stats')
+    .description('Show cached entries per resource')
+    .option('--json', 'Output as JSON')
+    .action((options: { json?: boolean }) => {
+      try {
+        const stats = getCacheStats();
+        output(stats, {
+          json: options.json,
+          tableHeaders: ['Resource', 'TTL', 'Entries', 'Fresh', 'Expired', 'Size'],
+          tableMapper: (s: CacheStats) => [
+            s.resource,
+            formatTtl(s.ttl),
+            s.entries,
+            s.fresh,
+            s.expired,
+            formatBytes(s.bytes),
+          ],
+          footer: `Cache directory: ${getCacheDir()}`,
+        });
+      } catch (err) {
+        fail(err, 'Failed to read cache');
+      }
+    });
+
+  cache
+    .command('clear')
+    .description('Remove cached entries')
+    .argument('[resource]', `Only clear one resource (${CACHE_RESOURCES.join(', ')})`)
+    .action((resource?: string) => {
+      if (resource && !CACHE_RESOURCES.includes(resource as CacheResource)) {
+        fail(new CliError(`Unknown cache resource: ${resource}. Available resources: ${CACHE_RESOURCES.join(', ')}`, 'validation'), 'Unknown cache resource');
+      }
+
+      try {
+        const removed = clearCache(resource as CacheResource | undefined);
+        success(`Removed ${removed} cached ${removed === 1 ? 'entry' : 'entries'}${resource ? ` (${resource})` : ''}`);
+      } catch (err) {
+        fail(err, 'Failed to clear cache');
+      }
+    });
+
+  return cache;
+}
@@ -1,10 +1,12 @@
 import { Command } from 'commander';
-import ora from 'ora';
 import { readFileSync, existsSync } from 'fs';
 import { basename } from 'path';
-import { apiGet, apiPost, apiPut, apiDelete } from '../lib/api.js';
-import { getConfig } from '../lib/config.js';
-import { output, success, error, header, detail, outputTable } from '../lib/output.js';
+import { apiPost, apiPut, apiDelete } from '../lib/api.js';
+import { cachedApiGet, invalidateCache } from '../lib/cache.js';
+import { getCodecsPath, getTemplatesPath } from '../lib/paths.js';
+import { CliError } from '../lib/errors.js';
+import { output, success, error, header, detail, outputTable, fail, isFormattedOutput, recordResult } from '../lib/output.js';
+import { startSpinner } from '../lib/interactive.js';
 import type {
   Codec,
   CodecFile,
@@ -22,22 +24,6 @@ import type {
 } from '../types/index.js';
 import chalk from 'chalk';
 
-/**
- * Get the base path for codecs API
- */
-function getCodecsPath(): string {
-  const clientId = getConfig('clientId');
-  return `/v1.1/organizations/${clientId}/applications/${clientId}/codecs`;
-}
-
-/**
- * Get the base path for templates API
- */
-function getTemplatesPath(): string {
-  const clientId = getConfig('clientId');
-  return `/v1.1/organizations/${clientId}/applications/${clientId}/things/types`;
-}
-
 /**
  * Validate decoded sensors against template capabilities
  */
@@ -53,7 +39,7 @@ async function validateAgainstTemplate(
   templateId: string
 ): Promise<{ results: ValidationResult[]; template: DeviceTemplate }> {
   // Fetch the template
-  const template = await apiGet<DeviceTemplate>(`${getTemplatesPath()}/${templateId}`);
+  const template = await cachedApiGet<DeviceTemplate>('templates', `${getTemplatesPath()}/${templateId}`);
   const channels = template.channels || [];
 
   const results: ValidationResult[] = sensors.map((sensor) => {
@@ -307,14 +293,14 @@ export function createCodecsCommands(): Command {
       public?: boolean;
       official?: boolean;
     }) => {
-      const spinner = ora('Fetching codecs...').start();
+      const spinner = startSpinner('Fetching codecs...');
       try {
         const params: Record<string, unknown> = {};
         if (options.opensource) params.opensource = true;
         if (options.public) params.public = true;
         if (options.official) params.official = true;
 
-        const response = await apiGet<Codec[]>(getCodecsPath(), params);
+        const response = await cachedApiGet<Codec[]>('codecs', getCodecsPath(), params);
         spinner.stop();
 
         const codecList = Array.isArray(response) ? response : [];
@@ -334,8 +320,7 @@ export function createCodecsCommands(): Command {
         });
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch codecs');
-        process.exit(1);
+        fail(err, 'Failed to fetch codecs');
       }
     });
 
@@ -346,13 +331,14 @@ export function createCodecsCommands(): Command {
     .option('--json', 'Output as JSON')
     .option('--show-source', 'Show source code of files')
     .action(async (id: string, options: GlobalOptions & { showSource?: boolean }) => {
-      const spinner = ora('Fetching codec...').start();
+      const spinner = startSpinner('Fetching codec...');
       try {
-        const codec = await apiGet<Codec>(`${getCodecsPath()}/${id}`);
+        const codec = await cachedApiGet<Codec>('codecs', `${getCodecsPath()}/${id}`);
         spinner.stop();
 
-        if (options.json) {
-          output(codec, { json: true });
+        recordResult(codec);
+        if (isFormattedOutput(options.json)) {
+          output(codec, { json: options.json });
         } else {
           header(`Codec: ${codec.name}`);
           detail('ID', codec.id);
@@ -381,8 +367,7 @@ export function createCodecsCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch codec');
-        process.exit(1);
+        fail(err, 'Failed to fetch codec');
       }
     });
 
@@ -399,7 +384,7 @@ export function createCodecsCommands(): Command {
     .option('--opensource', 'Make codec opensource')
     .option('--json', 'Output as JSON')
     .action(async (options) => {
-      const spinner = ora('Creating codec...').start();
+      const spinner = startSpinner('Creating codec...');
       try {
         const files: CodecFile[] = [];
 
@@ -470,10 +455,11 @@ export function createCodecsCommands(): Command {
         if (options.opensource) data.opensource = true;
 
         const codec = await apiPost<Codec>(getCodecsPath(), data);
+        invalidateCache('codecs');
         spinner.stop();
 
-        if (options.json) {
-          output(codec, { json: true });
+        if (isFormattedOutput(options.json)) {
+          output(codec, { json: options.json });
         } else {
           success('Codec created successfully');
           detail('ID', codec.id);
@@ -481,8 +467,7 @@ export function createCodecsCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to create codec');
-        process.exit(1);
+        fail(err, 'Failed to create codec');
       }
     });
 
@@ -501,7 +486,7 @@ export function createCodecsCommands(): Command {
     .option('--opensource', 'Make codec opensource')
     .option('--json', 'Output as JSON')
     .action(async (id: string, options) => {
-      const spinner = ora('Updating codec...').start();
+      const spinner = startSpinner('Updating codec...');
       try {
         const data: Record<string, unknown> = {};
 
@@ -552,17 +537,17 @@ export function createCodecsCommands(): Command {
         }
 
         const codec = await apiPut<Codec>(`${getCodecsPath()}/${id}`, data);
+        invalidateCache('codecs');
         spinner.stop();
 
-        if (options.json) {
-          output(codec, { json: true });
+        if (isFormattedOutput(options.json)) {
+          output(codec, { json: options.json });
         } else {
           success('Codec updated successfully');
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to update codec');
-        process.exit(1);
+        fail(err, 'Failed to update codec');
       }
     });
 
@@ -571,15 +556,15 @@ export function createCodecsCommands(): Command {
     .description('Delete a codec')
     .argument('<id>', 'Codec ID')
     .action(async (id: string) => {
-      const spinner = ora('Deleting codec...').start();
+      const spinner = startSpinner('Deleting codec...');
       try {
         await apiDelete(`${getCodecsPath()}/${id}`);
+        invalidateCache('codecs');
         spinner.stop();
         success('Codec deleted successfully');
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to delete codec');
-        process.exit(1);
+        fail(err, 'Failed to delete codec');
       }
     });
 
@@ -602,7 +587,7 @@ export function createCodecsCommands(): Command {
       validateTemplate?: string;
       debug?: boolean;
     }) => {
-      const spinner = ora('Decoding payload...').start();
+      const spinner = startSpinner('Decoding payload...');
       try {
         const params: Record<string, unknown> = {};
         if (options.debug) params.debug = true;
@@ -616,7 +601,8 @@ export function createCodecsCommands(): Command {
 
         const response = await apiPost<DecodeResponse>(
           `${getCodecsPath()}/${id}/decode`,
-          body as unknown as Record<string, unknown>
+          body as unknown as Record<string, unknown>,
+          { retry: true } // stateless test run, safe to repeat
         );
 
         // Validate against template if requested
@@ -639,7 +625,7 @@ export function createCodecsCommands(): Command {
 
         spinner.stop();
 
-        if (options.json) {
+        if (isFormattedOutput(options.json)) {
           const jsonOutput: Record<string, unknown> = { ...response };
           if (validationResults) {
             jsonOutput.validation = {
@@ -652,11 +638,10 @@ export function createCodecsCommands(): Command {
               })),
             };
           }
-          output(jsonOutput, { json: true });
+          output(jsonOutput, { json: options.json });
         } else {
           if (response.error) {
-            error(`Decode error: ${response.error}`);
-            process.exit(1);
+            fail(new CliError(`Decode error: ${response.error}`, 'validation'), 'Decode failed');
           }
 
           if (response.console && options.debug) {
@@ -729,8 +714,7 @@ export function createCodecsCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to decode payload');
-        process.exit(1);
+        fail(err, 'Failed to decode payload');
       }
     });
 
@@ -747,7 +731,7 @@ export function createCodecsCommands(): Command {
       value: string;
       debug?: boolean;
     }) => {
-      const spinner = ora('Encoding command...').start();
+      const spinner = startSpinner('Encoding command...');
       try {
         const params: Record<string, unknown> = {};
         if (options.debug) params.debug = true;
@@ -769,16 +753,16 @@ export function createCodecsCommands(): Command {
 
         const response = await apiPost<EncodeResponse>(
           `${getCodecsPath()}/${id}/encode`,
-          body as unknown as Record<string, unknown>
+          body as unknown as Record<string, unknown>,
+          { retry: true } // stateless test run, safe to repeat
         );
         spinner.stop();
 
-        if (options.json) {
-          output(response, { json: true });
+        if (isFormattedOutput(options.json)) {
+          output(response, { json: options.json });
         } else {
           if (response.error) {
-            error(`Encode error: ${response.error}`);
-            process.exit(1);
+            fail(new CliError(`Encode error: ${response.error}`, 'validation'), 'Encode failed');
           }
 
           if (response.console && options.debug) {
@@ -800,8 +784,7 @@ export function createCodecsCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to encode command');
-        process.exit(1);
+        fail(err, 'Failed to encode command');
       }
     });
 
@@ -1,8 +1,10 @@
 import { Command } from 'commander';
-import ora from 'ora';
 import { apiGet, apiPost, apiPut, apiDelete } from '../lib/api.js';
-import { output, success, error, header, detail } from '../lib/output.js';
-import type { Company, ApiResponse, GlobalOptions, ListOptions } from '../types/index.js';
+import { fetchList } from '../lib/paginate.js';
+import { CliError } from '../lib/errors.js';
+import { output, success, header, detail, fail, isFormattedOutput, recordResult } from '../lib/output.js';
+import { startSpinner } from '../lib/interactive.js';
+import type { Company, GlobalOptions, ListOptions } from '../types/index.js';
 
 export function createCompaniesCommands(): Command {
   const companies = new Command('companies').description('Manage companies');
@@ -12,11 +14,13 @@ export function createCompaniesCommands(): Command {
     .description('List all companies')
     .option('-l, --limit <number>', 'Results per page', '20')
     .option('-p, --page <number>', 'Page number', '0')
+    .option('--all', 'Fetch every page (streamed as NDJSON with --json)')
+    .option('--max-items <number>', 'Stop after this many results (implies --all)')
     .option('--user-id <id>', 'Filter by user ID')
     .option('--external-id <id>', 'Filter by external ID')
     .option('--json', 'Output as JSON')
     .action(async (options: ListOptions & { userId?: string; externalId?: string }) => {
-      const spinner = ora('Fetching companies...').start();
+      const spinner = startSpinner('Fetching companies...');
       try {
         const params: Record<string, unknown> = {
           limit: parseInt(options.limit as unknown as string, 10),
@@ -25,8 +29,9 @@ export function createCompaniesCommands(): Command {
         if (options.userId) params.user_id = options.userId;
         if (options.externalId) params.external_id = options.externalId;
 
-        const response = await apiGet<ApiResponse<Company>>('/v1.0/admin/companies', params);
+        const response = await fetchList<Company>('/v1.0/admin/companies', params, options, spinner);
         spinner.stop();
+        if (!response) return; // streamed as NDJSON
 
         const companies = response.rows || [];
         output(companies, {
@@ -37,8 +42,7 @@ export function createCompaniesCommands(): Command {
         });
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch companies');
-        process.exit(1);
+        fail(err, 'Failed to fetch companies');
       }
     });
 
@@ -48,13 +52,14 @@ export function createCompaniesCommands(): Command {
     .argument('<id>', 'Company ID')
     .option('--json', 'Output as JSON')
     .action(async (id: string, options: GlobalOptions) => {
-      const spinner = ora('Fetching company...').start();
+      const spinner = startSpinner('Fetching company...');
       try {
         const company = await apiGet<Company>(`/v1.0/admin/companies/${id}`);
         spinner.stop();
 
-        if (options.json) {
-          output(company, { json: true });
+        recordResult(company);
+        if (isFormattedOutput(options.json)) {
+          output(company, { json: options.json });
         } else {
           header(`Company: ${company.name}`);
           detail('ID', company.id);
@@ -70,8 +75,7 @@ export function createCompaniesCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch company');
-        process.exit(1);
+        fail(err, 'Failed to fetch company');
       }
     });
 
@@ -96,8 +100,7 @@ export function createCompaniesCommands(): Command {
           try {
             data = JSON.parse(options.data);
           } catch {
-            error('Invalid JSON in --data option');
-            process.exit(1);
+            fail(new CliError('Invalid JSON in --data option', 'validation'), 'Invalid JSON');
           }
         }
 
@@ -113,23 +116,21 @@ export function createCompaniesCommands(): Command {
 
         // Validate required fields
         if (!data.name) {
-          error('--name is required (or provide in --data)');
-          process.exit(1);
+          fail(new CliError('--name is required (or provide in --data)', 'validation'), 'Missing required option');
         }
 
-        const spinner = ora('Creating company...').start();
+        const spinner = startSpinner('Creating company...');
         const company = await apiPost<Company>('/v1.0/admin/companies', data);
         spinner.stop();
 
-        if (options.json) {
-          output(company, { json: true });
+        if (isFormattedOutput(options.json)) {
+          output(company, { json: options.json });
         } else {
           success('Company created successfully');
           detail('ID', company.id);
         }
       } catch (err) {
-        error(err instanceof Error ? err.message : 'Failed to create company');
-        process.exit(1);
+        fail(err, 'Failed to create company');
       }
     });
 
@@ -154,8 +155,7 @@ export function createCompaniesCommands(): Command {
           try {
             data = JSON.parse(options.data);
           } catch {
-            error('Invalid JSON in --data option');
-            process.exit(1);
+            fail(new CliError('Invalid JSON in --data option', 'validation'), 'Invalid JSON');
           }
         }
 
@@ -169,22 +169,20 @@ export function createCompaniesCommands(): Command {
         if (options.timezone) data.timezone = options.timezone;
 
         if (Object.keys(data).length === 0) {
-          error('No fields to update. Provide --data or individual options.');
-          process.exit(1);
+          fail(new CliError('No fields to update. Provide --data or individual options.', 'validation'), 'Nothing to update');
         }
 
-        const spinner = ora('Updating company...').start();
+        const spinner = startSpinner('Updating company...');
         const company = await apiPut<Company>(`/v1.0/admin/companies/${id}`, data);
         spinner.stop();
 
-        if (options.json) {
-          output(company, { json: true });
+        if (isFormattedOutput(options.json)) {
+          output(company, { json: options.json });
         } else {
           success('Company updated successfully');
         }
       } catch (err) {
-        error(err instanceof Error ? err.message : 'Failed to update company');
-        process.exit(1);
+        fail(err, 'Failed to update company');
       }
     });
 
@@ -193,15 +191,14 @@ export function createCompaniesCommands(): Command {
     .description('Delete a company')
     .argument('<id>', 'Company ID')
     .action(async (id: string) => {
-      const spinner = ora('Deleting company...').start();
+      const spinner = startSpinner('Deleting company...');
       try {
         await apiDelete(`/v1.0/admin/companies/${id}`);
         spinner.stop();
         success('Company deleted successfully');
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to delete company');
-        process.exit(1);
+        fail(err, 'Failed to delete company');
       }
     });
 
@@ -211,10 +208,10 @@ export function createCompaniesCommands(): Command {
     .action(async () => {
       try {
         const response = await apiGet<{ count: number }>('/v1.0/admin/companies/count');
+        recordResult(response);
         console.log(response.count);
       } catch (err) {
-        error(err instanceof Error ? err.message : 'Failed to get count');
-        process.exit(1);
+        fail(err, 'Failed to get count');
       }
     });
 
@@ -16,6 +16,7 @@ const COMMANDS = [
   'codecs',
   'registry',
   'gateways',
+  'cache',
   'completion',
 ];
 
@@ -24,13 +25,14 @@ const SUBCOMMANDS: Record<string, string[]> = {
   companies: ['list', 'get', 'create', 'update', 'delete', 'count'],
   locations: ['list', 'get', 'create', 'update', 'delete', 'count'],
   users: ['list', 'get', 'create', 'update', 'delete', 'count', 'permissions'],
-  devices: ['list', 'get', 'create', 'update', 'delete', 'count', 'readings', 'command'],
+  devices: ['list', 'get', 'create', 'update', 'properties', 'delete', 'count', 'latest', 'readings', 'tail', 'health', 'cmd', 'status'],
   rules: ['list', 'get', 'count'],
-  config: ['get', 'set', 'list', 'reset'],
+  config: ['get', 'set', 'list', 'reset', 'profiles', 'columns'],
   templates: ['list', 'get', 'create', 'update', 'delete', 'assign-codec', 'scaffold-decoder', 'datatypes', 'capabilities'],
   codecs: ['list', 'get', 'create', 'update', 'delete', 'decode', 'encode'],
   registry: ['list', 'get', 'create', 'unpair', 'networks'],
   gateways: ['list', 'get', 'pings', 'stats'],
+  cache: ['stats', 'clear'],
   completion: ['bash', 'zsh', 'fish'],
 };
 
@@ -66,7 +68,7 @@ ${Object.entries(SUBCOMMANDS).map(([cmd, subs]) => `        ${cmd})
 
     # Complete common options
     if [[ "\${cur}" == -* ]]; then
-        COMPREPLY=( $(compgen -W "--help --json --limit --page" -- "\${cur}") )
+        COMPREPLY=( $(compgen -W "--help --json --limit --page --all --max-items --profile" -- "\${cur}") )
         return 0
     fi
 }
@@ -1,4 +1,5 @@
 import { Command } from 'commander';
+import { getOutputFormat, outputJson, outputYaml } from '../lib/output.js';
 
 // ============================================================================
 // Command Schema Types
@@ -59,15 +60,25 @@ function getCommandSchema(): CLISchema {
               { name: 'realm', flags: '--realm <realm>', description: 'Auth realm', required: false },
               { name: 'client-id', flags: '--client-id <id>', description: 'OAuth client ID', required: false },
               { name: 'client-secret', flags: '--client-secret <secret>', description: 'OAuth client secret', required: false },
+              { name: 'grant', flags: '--grant <type>', description: 'How to sign in (client_credentials, password, device)', required: false },
+              { name: 'username', flags: '--username <username>', description: 'User name (with --grant password)', required: false },
+              { name: 'password-stdin', flags: '--password-stdin', description: 'Read the password from stdin (with --grant password)', required: false },
+              { name: 'token-file', flags: '--token-file <file>', description: 'Use an access token read from a file (re-read when it expires)', required: false },
+              { name: 'token-stdin', flags: '--token-stdin', description: 'Use an access token read from stdin', required: false },
+              { name: 'store', flags: '--store <kind>', description: 'Where to keep the secret and tokens (plaintext, encrypted)', required: false },
             ],
             examples: [
               'mydevices auth login',
               'mydevices auth login --realm mycompany --client-id abc --client-secret xyz',
+              'mydevices auth login --grant password --client-id mydevices-cli --username jane',
+              'mydevices auth login --grant device --client-id mydevices-cli',
+              'get-token | mydevices auth login --token-stdin',
+              'MYDEVICES_PASSPHRASE=... mydevices auth login --store encrypted',
             ],
           },
           { name: 'logout', description: 'Logout and clear stored credentials', arguments: [], options: [] },
           { name: 'whoami', description: 'Show current authentication status', arguments: [], options: [{ name: 'json', flags: '--json', description: 'Output as JSON', required: false }] },
-          { name: 'token', description: 'Display current access token', arguments: [], options: [] },
+          { name: 'token', description: 'Display current access token', arguments: [], options: [{ name: 'decode', flags: '--decode', description: 'Show the claims of the token instead of the token itself', required: false }, { name: 'json', flags: '--json', description: 'Output as JSON (with --decode)', required: false }] },
         ],
       },
       {
@@ -83,10 +94,12 @@ function getCommandSchema(): CLISchema {
             options: [
               { name: 'limit', flags: '-l, --limit <number>', description: 'Results per page', required: false, default: '20' },
               { name: 'page', flags: '-p, --page <number>', description: 'Page number', required: false, default: '0' },
+              { name: 'all', flags: '--all', description: 'Fetch every page (streamed as NDJSON with --json)', required: false },
+              { name: 'maxItems', flags: '--max-items <number>', description: 'Stop after this many results (implies --all)', required: false },
               { name: 'location-id', flags: '--location-id <id>', description: 'Filter by location', required: false },
               { name: 'json', flags: '--json', description: 'Output as JSON', required: false },
             ],
-            examples: ['mydevices devices list', 'mydevices devices list --limit 50 --json'],
+            examples: ['mydevices devices list', 'mydevices devices list --limit 50 --json', 'mydevices devices list --all --json'],
           },
           {
             name: 'get',
@@ -106,17 +119,121 @@ function getCommandSchema(): CLISchema {
               { name: 'channel', flags: '-c, --channel <number>', description: 'Filter by channel', required: false },
               { name: 'start', flags: '--start <date>', description: 'Start time', required: false },
               { name: 'end', flags: '--end <date>', description: 'End time', required: false },
+              { name: 'bucket', flags: '--bucket <duration>', description: 'Aggregate per channel over time buckets, e.g. 15m, 1h or 1d (needs --from)', required: false },
+              { name: 'agg', flags: '--agg <list>', description: 'Aggregates with --bucket: avg, min, max, count, last (default: avg)', required: false },
+              { name: 'raw', flags: '--raw', description: 'Show channel numbers and raw values instead of template names, units and statuses', required: false },
               { name: 'json', flags: '--json', description: 'Output as JSON', required: false },
             ],
+            examples: ['mydevices devices readings abc123 --from 2024-05-01 --to 2024-05-08 --bucket 1h --agg avg,min,max'],
+            subcommands: [
+              {
+                name: 'export',
+                description: 'Export readings over a time range to a CSV or NDJSON file, one column per channel',
+                arguments: [{ name: 'id', description: 'Device ID', required: true }],
+                options: [
+                  { name: 'from', flags: '--from <date>', description: 'Start date (ISO format)', required: true },
+                  { name: 'to', flags: '--to <date>', description: 'End date (ISO format, default: now; a resumed export keeps its own)', required: false },
+                  { name: 'output', flags: '-o, --output <file>', description: 'File to write (.csv, .ndjson or .jsonl)', required: true },
+                  { name: 'file-format', flags: '--file-format <format>', description: 'File format (csv, ndjson, jsonl; default: from the file extension)', required: false },
+                  { name: 'window', flags: '--window <duration>', description: 'Time range fetched at a time (default: 1d)', required: false },
+                  { name: 'limit', flags: '-l, --limit <number>', description: 'Readings per request (default: 1000)', required: false },
+                  { name: 'restart', flags: '--restart', description: 'Start over instead of resuming an interrupted export', required: false },
+                  { name: 'json', flags: '--json', description: 'Output the summary as JSON', required: false },
+                ],
+                examples: ['mydevices devices readings export abc123 --from 2024-05-01 --to 2024-06-01 -o may.csv'],
+              },
+            ],
           },
           {
-            name: 'command',
-            description: 'Send command to device',
+            name: 'tail',
+            description: 'Follow new readings from one or more devices as they arrive',
+            arguments: [{ name: 'ids', description: 'Device IDs', required: true }],
+            options: [
+              { name: 'interval', flags: '--interval <duration>', description: 'Time between polls (default: 5s)', required: false },
+              { name: 'for', flags: '--for <duration>', description: 'Stop after this long, e.g. 30s or 10m', required: false },
+              { name: 'count', flags: '--count <n>', description: 'Stop after this many new readings across all devices', required: false },
+              { name: 'threshold', flags: '--threshold <rule>', description: 'Highlight values that meet a rule, e.g. Temperature>30 or Door=Open (repeatable)', required: false },
+              { name: 'raw', flags: '--raw', description: 'Show channel numbers and raw values', required: false },
+              { name: 'json', flags: '--json', description: 'Output as NDJSON, one reading per line', required: false },
+            ],
+            examples: ['mydevices devices tail abc123 --count 1 --for 10m', "mydevices devices tail abc123 --threshold 'Temperature>30'"],
+          },
+          {
+            name: 'health',
+            description: 'Report which devices are online, late or offline from the age of their latest reading',
+            arguments: [],
+            options: [
+              { name: 'location-id', flags: '--location-id <id>', description: 'Only devices at this location', required: false },
+              { name: 'company', flags: '--company <id>', description: 'Only devices of this company', required: false },
+              { name: 'late-factor', flags: '--late-factor <n>', description: 'Late once the latest reading is older than n broadcast intervals (default: 2)', required: false },
+              { name: 'offline-factor', flags: '--offline-factor <n>', description: 'Offline once the latest reading is older than n broadcast intervals (default: 6)', required: false },
+              { name: 'default-interval', flags: '--default-interval <minutes>', description: 'Broadcast interval for devices whose template has none', required: false },
+              { name: 'state', flags: '--state <list>', description: 'Only list devices in these states, e.g. late,offline', required: false },
+              { name: 'concurrency', flags: '--concurrency <n>', description: 'Requests to run in parallel (default: 4)', required: false },
+              { name: 'json', flags: '--json', description: 'Output as JSON', required: false },
+            ],
+            examples: ['mydevices devices health --location-id 1234 --state late,offline'],
+          },
+          {
+            name: 'properties',
+            description: 'Get and change device properties, checked against the template form settings',
+            arguments: [],
+            options: [],
+            subcommands: [
+              {
+                name: 'get',
+                description: 'Show device properties alongside the form settings of its template',
+                arguments: [
+                  { name: 'id', description: 'Device ID', required: true },
+                  { name: 'keys', description: 'Only these properties', required: false },
+                ],
+                options: [{ name: 'json', flags: '--json', description: 'Output as JSON', required: false }],
+              },
+              {
+                name: 'set',
+                description: 'Set device properties, checked against the template form settings',
+                arguments: [
+                  { name: 'id', description: 'Device ID', required: true },
+                  { name: 'key=value', description: 'Properties to set', required: true },
+                ],
+                options: [
+                  { name: 'dry-run', flags: '--dry-run', description: 'Show the changes without applying them', required: false },
+                  { name: 'force', flags: '--force', description: 'Apply values that fail the form settings checks', required: false },
+                  { name: 'yes', flags: '-y, --yes', description: 'Apply without confirmation', required: false },
+                  { name: 'json', flags: '--json', description: 'Output as JSON', required: false },
+                ],
+                examples: ['mydevices devices properties set abc123 codec.timezone=UTC --dry-run'],
+              },
+              {
+                name: 'unset',
+                description: 'Remove device properties',
+                arguments: [
+                  { name: 'id', description: 'Device ID', required: true },
+                  { name: 'keys', description: 'Properties to remove', required: true },
+                ],
+                options: [
+                  { name: 'dry-run', flags: '--dry-run', description: 'Show the changes without applying them', required: false },
+                  { name: 'force', flags: '--force', description: 'Remove required settings too', required: false },
+                  { name: 'yes', flags: '-y, --yes', description: 'Apply without confirmation', required: false },
+                  { name: 'json', flags: '--json', description: 'Output as JSON', required: false },
+                ],
+              },
+            ],
+          },
+          {
+            name: 'cmd',
+            description: 'Send a command to a device, checked against its template and previewed with its codec',
             arguments: [{ name: 'id', description: 'Device ID', required: true }],
             options: [
-              { name: 'channel', flags: '-c, --channel <number>', description: 'Target channel', required: true },
-              { name: 'value', flags: '-v, --value <value>', description: 'Command value', required: true },
+              { name: 'channel', flags: '--channel <channel>', description: 'Channel number or name', required: true },
+              { name: 'value', flags: '--value <value>', description: 'Value to send, as text', required: false },
+              { name: 'value-json', flags: '--value-json <json>', description: 'Value to send as JSON', required: false },
+              { name: 'dry-run', flags: '--dry-run', description: 'Check and encode the command without sending it', required: false },
+              { name: 'confirm', flags: '--confirm', description: 'Ask before sending, after showing the payload', required: false },
+              { name: 'force', flags: '--force', description: 'Send even if the channel is not commandable or the codec rejects the value', required: false },
+              { name: 'json', flags: '--json', description: 'Output as JSON', required: false },
             ],
+            examples: ['mydevices devices cmd abc123 --channel Setpoint --value-json 21.5 --dry-run'],
           },
           { name: 'count', description: 'Get total device count', arguments: [], options: [{ name: 'json', flags: '--json', description: 'Output as JSON', required: false }] },
         ],
@@ -134,6 +251,8 @@ function getCommandSchema(): CLISchema {
             options: [
               { name: 'limit', flags: '-l, --limit <number>', description: 'Results per page', required: false, default: '20' },
               { name: 'page', flags: '-p, --page <number>', description: 'Page number', required: false, default: '0' },
+              { name: 'all', flags: '--all', description: 'Fetch every page (streamed as NDJSON with --json)', required: false },
+              { name: 'maxItems', flags: '--max-items <number>', description: 'Stop after this many results (implies --all)', required: false },
               { name: 'search', flags: '--search <term>', description: 'Search by name', required: false },
               { name: 'manufacturer', flags: '--manufacturer <name>', description: 'Filter by manufacturer', required: false },
               { name: 'category', flags: '--category <category>', description: 'Filter by category (module, gateway)', required: false },
@@ -326,6 +445,8 @@ function getCommandSchema(): CLISchema {
             options: [
               { name: 'limit', flags: '-l, --limit <number>', description: 'Results per page', required: false, default: '20' },
               { name: 'page', flags: '-p, --page <number>', description: 'Page number', required: false, default: '0' },
+              { name: 'all', flags: '--all', description: 'Fetch every page (streamed as NDJSON with --json)', required: false },
+              { name: 'maxItems', flags: '--max-items <number>', description: 'Stop after this many results (implies --all)', required: false },
               { name: 'status', flags: '--status <status>', description: 'Filter by status (PENDING, PAIRED, DECOMMISSIONED)', required: false },
               { name: 'network', flags: '--network <network>', description: 'Filter by network', required: false },
               { name: 'device-type', flags: '--device-type <id>', description: 'Filter by device type ID', required: false },
@@ -379,6 +500,8 @@ function getCommandSchema(): CLISchema {
             options: [
               { name: 'limit', flags: '-l, --limit <number>', description: 'Results per page', required: false, default: '20' },
               { name: 'page', flags: '-p, --page <number>', description: 'Page number', required: false, default: '0' },
+              { name: 'all', flags: '--all', description: 'Fetch every page (streamed as NDJSON with --json)', required: false },
+              { name: 'maxItems', flags: '--max-items <number>', description: 'Stop after this many results (implies --all)', required: false },
               { name: 'status', flags: '--status <status>', description: 'Filter by status', required: false },
               { name: 'network', flags: '--network <network>', description: 'Filter by network', required: false },
               { name: 'json', flags: '--json', description: 'Output as JSON', required: false },
@@ -425,6 +548,8 @@ function getCommandSchema(): CLISchema {
             options: [
               { name: 'limit', flags: '-l, --limit <number>', description: 'Results per page', required: false, default: '20' },
               { name: 'page', flags: '-p, --page <number>', description: 'Page number', required: false, default: '0' },
+              { name: 'all', flags: '--all', description: 'Fetch every page (streamed as NDJSON with --json)', required: false },
+              { name: 'maxItems', flags: '--max-items <number>', description: 'Stop after this many results (implies --all)', required: false },
               { name: 'json', flags: '--json', description: 'Output as JSON', required: false },
             ],
           },
@@ -450,6 +575,8 @@ function getCommandSchema(): CLISchema {
             options: [
               { name: 'limit', flags: '-l, --limit <number>', description: 'Results per page', required: false, default: '20' },
               { name: 'page', flags: '-p, --page <number>', description: 'Page number', required: false, default: '0' },
+              { name: 'all', flags: '--all', description: 'Fetch every page (streamed as NDJSON with --json)', required: false },
+              { name: 'maxItems', flags: '--max-items <number>', description: 'Stop after this many results (implies --all)', required: false },
               { name: 'company-id', flags: '--company-id <id>', description: 'Filter by company', required: false },
               { name: 'json', flags: '--json', description: 'Output as JSON', required: false },
             ],
@@ -476,6 +603,8 @@ function getCommandSchema(): CLISchema {
             options: [
               { name: 'limit', flags: '-l, --limit <number>', description: 'Results per page', required: false, default: '20' },
               { name: 'page', flags: '-p, --page <number>', description: 'Page number', required: false, default: '0' },
+              { name: 'all', flags: '--all', description: 'Fetch every page (streamed as NDJSON with --json)', required: false },
+              { name: 'maxItems', flags: '--max-items <number>', description: 'Stop after this many results (implies --all)', required: false },
               { name: 'json', flags: '--json', description: 'Output as JSON', required: false },
             ],
           },
@@ -501,6 +630,8 @@ function getCommandSchema(): CLISchema {
             options: [
               { name: 'limit', flags: '-l, --limit <number>', description: 'Results per page', required: false, default: '20' },
               { name: 'page', flags: '-p, --page <number>', description: 'Page number', required: false, default: '0' },
+              { name: 'all', flags: '--all', description: 'Fetch every page (streamed as NDJSON with --json)', required: false },
+              { name: 'maxItems', flags: '--max-items <number>', description: 'Stop after this many results (implies --all)', required: false },
               { name: 'json', flags: '--json', description: 'Output as JSON', required: false },
             ],
           },
@@ -536,8 +667,88 @@ function getCommandSchema(): CLISchema {
             options: [],
           },
           { name: 'reset', description: 'Reset configuration to defaults', arguments: [], options: [] },
+          {
+            name: 'profiles',
+            description: 'Manage named configuration profiles',
+            arguments: [],
+            options: [],
+            subcommands: [
+              { name: 'list', description: 'List configured profiles', arguments: [], options: [{ name: 'json', flags: '--json', description: 'Output as JSON', required: false }] },
+              { name: 'use', description: 'Set the default profile', arguments: [{ name: 'name', description: 'Profile name', required: true }], options: [] },
+              {
+                name: 'rename',
+                description: 'Rename a profile',
+                arguments: [
+                  { name: 'old-name', description: 'Current profile name', required: true },
+                  { name: 'new-name', description: 'New profile name', required: true },
+                ],
+                options: [],
+              },
+              {
+                name: 'delete',
+                description: 'Delete a profile and its stored credentials',
+                arguments: [{ name: 'name', description: 'Profile name', required: true }],
+                options: [{ name: 'yes', flags: '-y, --yes', description: 'Skip confirmation prompt', required: false }],
+              },
+            ],
+            examples: ['mydevices config profiles list', 'mydevices config profiles use staging', 'mydevices devices list --profile staging'],
+          },
+          {
+            name: 'columns',
+            description: 'Manage saved --columns presets',
+            arguments: [],
+            options: [],
+            subcommands: [
+              {
+                name: 'list',
+                description: 'List saved column presets',
+                arguments: [{ name: 'command', description: 'Only presets for this command, e.g. "devices list"', required: false }],
+                options: [{ name: 'json', flags: '--json', description: 'Output as JSON', required: false }],
+              },
+              {
+                name: 'set',
+                description: 'Save a column preset for a command',
+                arguments: [
+                  { name: 'command', description: 'Command path, e.g. "devices list"', required: true },
+                  { name: 'name', description: 'Preset name ("default" applies automatically)', required: true },
+                  { name: 'fields', description: 'Comma-separated dotted field paths', required: true },
+                ],
+                options: [],
+              },
+              {
+                name: 'delete',
+                description: 'Delete a column preset',
+                arguments: [
+                  { name: 'command', description: 'Command path', required: true },
+                  { name: 'name', description: 'Preset name', required: true },
+                ],
+                options: [],
+              },
+            ],
+            examples: [
+              'mydevices config columns set "devices list" default id,thing_name,location_id,created_at',
+              'mydevices devices list --columns id,thing_name,properties.foo --sort-by created_at:desc',
+              'mydevices devices list --columns @default',
+            ],
+          },
         ],
       },
+      {
+        name: 'cache',
+        description: 'Manage the local cache of reference data (templates, codecs, datatypes, networks)',
+        arguments: [],
+        options: [],
+        subcommands: [
+          { name: 'stats', description: 'Show cached entries per resource', arguments: [], options: [{ name: 'json', flags: '--json', description: 'Output as JSON', required: false }] },
+          {
+            name: 'clear',
+            description: 'Remove cached entries',
+            arguments: [{ name: 'resource', description: 'Only clear one resource (templates, codecs, datatypes, networks)', required: false }],
+            options: [],
+          },
+        ],
+        examples: ['mydevices cache stats', 'mydevices cache clear templates', 'mydevices registry networks --refresh'],
+      },
     ],
   };
 }
@@ -557,10 +768,10 @@ export function createDescribeCommands(): Command {
 
       if (options.markdown) {
         console.log(schemaToMarkdown(schema));
-      } else if (options.yaml) {
-        console.log(schemaToYaml(schema));
+      } else if (options.yaml || getOutputFormat(options.json) === 'yaml') {
+        outputYaml(schema);
       } else {
-        console.log(JSON.stringify(schema, null, 2));
+        outputJson(schema);
       }
     });
 
@@ -621,56 +832,6 @@ function commandToMarkdown(cmd: CommandSchema, level: number): string {
   return md;
 }
 
-function schemaToYaml(schema: CLISchema, indent = 0): string {
-  const pad = '  '.repeat(indent);
-  let yaml = '';
-
-  yaml += `${pad}name: ${schema.name}\n`;
-  yaml += `${pad}version: ${schema.version}\n`;
-  yaml += `${pad}description: ${schema.description}\n`;
-  yaml += `${pad}commands:\n`;
-
-  for (const cmd of schema.commands) {
-    yaml += commandToYaml(cmd, indent + 1);
-  }
-
-  return yaml;
-}
-
-function commandToYaml(cmd: CommandSchema, indent: number): string {
-  const pad = '  '.repeat(indent);
-  let yaml = `${pad}- name: ${cmd.name}\n`;
-  yaml += `${pad}  description: ${cmd.description}\n`;
-
-  if (cmd.arguments.length > 0) {
-    yaml += `${pad}  arguments:\n`;
-    for (const arg of cmd.arguments) {
-      yaml += `${pad}    - name: ${arg.name}\n`;
-      yaml += `${pad}      description: ${arg.description}\n`;
-      yaml += `${pad}      required: ${arg.required}\n`;
-    }
-  }
-
-  if (cmd.options.length > 0) {
-    yaml += `${pad}  options:\n`;
-    for (const opt of cmd.options) {
-      yaml += `${pad}    - name: ${opt.name}\n`;
-      yaml += `${pad}      flags: "${opt.flags}"\n`;
-      yaml += `${pad}      description: ${opt.description}\n`;
-      if (opt.default) yaml += `${pad}      default: "${opt.default}"\n`;
-    }
-  }
-
-  if (cmd.subcommands && cmd.subcommands.length > 0) {
-    yaml += `${pad}  subcommands:\n`;
-    for (const sub of cmd.subcommands) {
-      yaml += commandToYaml(sub, indent + 2);
-    }
-  }
-
-  return yaml;
-}
-
 // Export schema for MCP server
 export { getCommandSchema };
 export type { CLISchema, CommandSchema, OptionSchema, ArgumentSchema };
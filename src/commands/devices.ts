@@ -1,9 +1,63 @@
-import { Command } from 'commander';
-import ora from 'ora';
+import { Command, Option } from 'commander';
+import chalk from 'chalk';
+import { existsSync } from 'fs';
 import { apiGet, apiPost, apiPut, apiDelete } from '../lib/api.js';
 import { getConfig } from '../lib/config.js';
-import { output, success, error, header, detail, outputTable } from '../lib/output.js';
-import type { Device, DeviceReading, ApiResponse, GlobalOptions, ListOptions } from '../types/index.js';
+import { getRuntimeOptions } from '../lib/global-options.js';
+import { ApiError, CliError, errorToJson } from '../lib/errors.js';
+import { extractFormSettings, fetchDeviceType, parseDeviceProperties, writeDeviceProperties } from '../lib/bulk-import.js';
+import type { FormSettingsField } from '../lib/bulk-import.js';
+import { checkProperties, checkUnset, diffProperties, parseAssignments } from '../lib/properties.js';
+import type { PropertyChange } from '../lib/properties.js';
+import { fetchList } from '../lib/paginate.js';
+import {
+  output,
+  outputNdjson,
+  success,
+  warn,
+  info,
+  header,
+  detail,
+  outputTable,
+  sortResults,
+  fail,
+  isFormattedOutput,
+  isJsonOutput,
+  recordResult,
+} from '../lib/output.js';
+import { confirmAction, startSpinner } from '../lib/interactive.js';
+import { prepareDownlink, sendDownlink } from '../lib/downlink.js';
+import type { Downlink } from '../lib/downlink.js';
+import { parseConcurrency, DEFAULT_CONCURRENCY, MAX_CONCURRENCY } from '../lib/pool.js';
+import {
+  checkFleetHealth,
+  parseHealthStates,
+  parsePositiveNumber,
+  DEFAULT_LATE_FACTOR,
+  DEFAULT_OFFLINE_FACTOR,
+} from '../lib/health.js';
+import type { DeviceHealth, HealthGroup, HealthState } from '../lib/health.js';
+import { sleep } from '../lib/retry.js';
+import {
+  aggregateReadings,
+  checkThresholds,
+  exportReadings,
+  fetchReadingsRange,
+  getChannelInfo,
+  getExportStatePath,
+  parseAggregates,
+  parseDuration,
+  parsePageSize,
+  parseThreshold,
+  parseTime,
+  resolveSensors,
+  AGGREGATES,
+  DEFAULT_EXPORT_WINDOW,
+  DEFAULT_EXPORT_PAGE_SIZE,
+  DEFAULT_TAIL_INTERVAL,
+} from '../lib/readings.js';
+import type { Aggregate, ChannelInfo, ExportFormat, ReadingBucket, Threshold } from '../lib/readings.js';
+import type { Device, DeviceReading, GlobalOptions, ListOptions } from '../types/index.js';
 
 /**
  * Check if a string is a 16 hex character hardware ID (EUI format)
@@ -12,6 +66,271 @@ function isHardwareId(value: string): boolean {
   return /^[0-9a-fA-F]{16}$/.test(value);
 }
 
+/**
+ * Channel names, units and status labels from the device's template, or
+ * none with --raw. Readings are still shown if the template can't be read.
+ */
+async function lookupChannels(deviceId: string, raw: boolean | undefined): Promise<ChannelInfo[]> {
+  if (raw) return [];
+  try {
+    return await getChannelInfo(deviceId);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Print aggregated readings: one row per bucket, one column per channel and aggregate
+ */
+function outputBuckets(
+  buckets: ReadingBucket[],
+  total: number,
+  channelInfo: ChannelInfo[],
+  options: GlobalOptions & { agg?: Aggregate[] }
+): void {
+  const aggregates = options.agg ?? ['avg'];
+  const names = new Map(channelInfo.map((c) => [`ch${c.channel}`, c.name]));
+  const channels = [...new Set(buckets.flatMap((b) => Object.keys(b.channels)))]
+    .sort((a, b) => parseInt(a.slice(2), 10) - parseInt(b.slice(2), 10));
+  const columns = channels.flatMap((channel) => aggregates.map((aggregate) => ({ channel, aggregate })));
+
+  output(buckets, {
+    json: options.json,
+    tableHeaders: ['Bucket', 'Readings', ...columns.map((c) => `${names.get(c.channel) ?? c.channel} ${c.aggregate}`)],
+    tableMapper: (b: ReadingBucket) => [
+      new Date(b.bucket).toLocaleString(),
+      b.readings,
+      ...columns.map(({ channel, aggregate }) => {
+        const value = b.channels[channel]?.[aggregate];
+        // Averages rarely need more than three decimals on screen
+        return typeof value === 'number' && !Number.isInteger(value) ? Number(value.toFixed(3)) : value;
+      }),
+    ],
+    footer: `Total: ${buckets.length} buckets from ${total} readings`,
+  });
+}
+
+/**
+ * Fetch a followed device's latest reading. A failed poll is reported (on
+ * stderr in JSON mode) and skipped so the other devices keep being followed.
+ */
+async function pollLatest(deviceId: string, options: GlobalOptions): Promise<DeviceReading | undefined> {
+  try {
+    return await apiGet<DeviceReading>(`/v1.0/admin/things/${deviceId}/latest`);
+  } catch (err) {
+    if (isFormattedOutput(options.json)) {
+      process.stderr.write(JSON.stringify({ device: deviceId, error: errorToJson(err, 'Failed to poll') }) + '\n');
+    } else {
+      warn(`Could not poll ${deviceId}: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Print one reading followed by devices tail: a line with values that meet a
+ * --threshold highlighted, or one NDJSON record
+ */
+function printTailReading(
+  deviceId: string,
+  reading: DeviceReading,
+  channels: ChannelInfo[],
+  options: GlobalOptions & { raw?: boolean; threshold: Threshold[] },
+  initial: boolean
+): void {
+  const sensors = resolveSensors(reading.sensors ?? [], channels);
+  const breached = sensors.map((s) => checkThresholds(s, options.threshold));
+  const alerts = breached.flat().map((t) => t.rule);
+  const record = {
+    device: deviceId,
+    ts: reading.ts,
+    time: new Date(reading.ts).toISOString(),
+    sensors: options.raw ? reading.sensors ?? [] : sensors,
+    ...(alerts.length > 0 ? { alerts } : {}),
+  };
+
+  if (isJsonOutput(options.json) && getRuntimeOptions().query === undefined) {
+    outputNdjson(record);
+    return;
+  }
+  if (isFormattedOutput(options.json)) {
+    output(record, { json: options.json });
+    return;
+  }
+
+  const values = sensors
+    .map((s, i) => {
+      const text = options.raw ? `ch${s.channel}:${s.v}` : `${s.name}: ${s.display}`;
+      return breached[i].length > 0 ? chalk.red.bold(text) : text;
+    })
+    .join(', ') || '-';
+  const suffix = initial ? chalk.gray('  (before tail started)') : '';
+  console.log(`${chalk.gray(new Date(reading.ts).toLocaleString())}  ${deviceId}  ${values}${suffix}`);
+}
+
+const STATE_COLORS: Record<HealthState, (text: string) => string> = {
+  online: chalk.green,
+  late: chalk.yellow,
+  offline: chalk.red,
+  unknown: chalk.gray,
+};
+
+/**
+ * Age of a reading in minutes, e.g. 45m, 3h 10m or 2d 4h
+ */
+function formatAge(minutes: number | null): string {
+  if (minutes === null) return 'never';
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`;
+  return `${Math.floor(minutes / (24 * 60))}d ${Math.floor((minutes % (24 * 60)) / 60)}h`;
+}
+
+/**
+ * Show what a command will send: the channel, value and encoded payload
+ */
+function showDownlink(downlink: Downlink): void {
+  header(`Command for ${downlink.device.thing_name || downlink.device.id}`);
+  detail('Channel', downlink.channelName ? `${downlink.channel} (${downlink.channelName})` : downlink.channel);
+  detail('Value', JSON.stringify(downlink.value));
+  if (downlink.codec) detail('Codec', downlink.codec);
+  if (downlink.payload) {
+    if (downlink.payload.data) detail('Payload (hex)', downlink.payload.data);
+    if (downlink.payload.text) detail('Payload (text)', downlink.payload.text);
+    if (downlink.payload.json) detail('Payload (json)', downlink.payload.json);
+    if (downlink.payload.fport) detail('FPort', downlink.payload.fport);
+  }
+  console.log('');
+  for (const message of downlink.warnings) {
+    warn(message);
+  }
+}
+
+interface PropertyTarget {
+  device: Device;
+  properties: Record<string, unknown>;
+  /** Form settings fields of the device's template */
+  fields: FormSettingsField[];
+  template?: string;
+}
+
+type PropertyOptions = GlobalOptions & { dryRun?: boolean; force?: boolean; yes?: boolean };
+
+/**
+ * A device's properties with its template's form settings
+ */
+async function loadProperties(id: string): Promise<PropertyTarget> {
+  const device = await apiGet<Device>(`/v1.0/admin/things/${id}`);
+  const template = device.device_type_id ? await fetchDeviceType(device.device_type_id) : undefined;
+  return {
+    device,
+    properties: parseDeviceProperties(device.properties),
+    fields: template ? extractFormSettings(template) : [],
+    template: template?.name,
+  };
+}
+
+function formatPropertyValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function showPropertyChanges(changes: PropertyChange[]): void {
+  for (const change of changes) {
+    if (!('from' in change)) {
+      console.log(chalk.green(`  + ${change.key}: ${formatPropertyValue(change.to)}`));
+    } else if (!('to' in change)) {
+      console.log(chalk.red(`  - ${change.key}: ${formatPropertyValue(change.from)}`));
+    } else {
+      console.log(chalk.yellow(`  ~ ${change.key}: ${formatPropertyValue(change.from)} → ${formatPropertyValue(change.to)}`));
+    }
+  }
+}
+
+/**
+ * Work out new properties for a device, show them as a diff and apply
+ * them once confirmed. Failed checks stop the change unless --force.
+ */
+async function changeProperties(
+  id: string,
+  options: PropertyOptions,
+  change: (target: PropertyTarget) => { properties: Record<string, unknown>; problems: string[] }
+): Promise<void> {
+  const spinner = startSpinner('Fetching device...');
+  let target: PropertyTarget;
+  try {
+    target = await loadProperties(id);
+    spinner.stop();
+  } catch (err) {
+    spinner.stop();
+    fail(err, 'Failed to fetch device');
+  }
+
+  const { properties, problems } = change(target);
+  if (problems.length > 0 && !options.force) {
+    fail(new CliError(`${problems.join('; ')}; pass --force to apply anyway`, 'validation'), 'Invalid properties');
+  }
+
+  const name = target.device.thing_name || target.device.id;
+  const changes = diffProperties(target.properties, properties);
+  const result = { device: target.device.id, changes, warnings: problems, applied: false };
+
+  if (!isFormattedOutput(options.json)) {
+    for (const problem of problems) {
+      warn(problem);
+    }
+    if (changes.length === 0) {
+      info('No changes');
+      return;
+    }
+    header(`Changes to ${name}`);
+    showPropertyChanges(changes);
+    console.log('');
+  }
+
+  if (changes.length === 0 || options.dryRun) {
+    if (isFormattedOutput(options.json)) {
+      output(result, { json: options.json });
+    } else {
+      info('Dry run: no changes applied');
+    }
+    return;
+  }
+
+  let proceed = false;
+  try {
+    proceed = await confirmAction(`Apply ${changes.length} change${changes.length === 1 ? '' : 's'} to ${name}?`, { yes: options.yes });
+  } catch (err) {
+    fail(err, 'Changes not confirmed');
+  }
+  if (!proceed) {
+    console.log(chalk.yellow('Changes cancelled'));
+    process.exit(0);
+  }
+
+  const updateSpinner = startSpinner('Updating properties...');
+  try {
+    await writeDeviceProperties(target.device.id, properties, target.device.user_id);
+    updateSpinner.stop();
+    result.applied = true;
+    if (isFormattedOutput(options.json)) {
+      output(result, { json: options.json });
+    } else {
+      success(`Updated ${changes.length} propert${changes.length === 1 ? 'y' : 'ies'} of ${name}`);
+    }
+  } catch (err) {
+    updateSpinner.stop();
+    fail(err, 'Failed to update properties');
+  }
+}
+
+function outputHealthGroups(title: string, groups: HealthGroup[]): void {
+  console.log('');
+  header(title);
+  outputTable(
+    [title.replace(/^By /, ''), 'Online', 'Late', 'Offline', 'Unknown', 'Total'],
+    groups.map((g) => [g.name, g.online, g.late, g.offline, g.unknown, g.total])
+  );
+}
+
 export function createDevicesCommands(): Command {
   const devices = new Command('devices').description('Manage devices (things)');
 
@@ -20,6 +339,8 @@ export function createDevicesCommands(): Command {
     .description('List all devices')
     .option('-l, --limit <number>', 'Results per page', '20')
     .option('-p, --page <number>', 'Page number', '0')
+    .option('--all', 'Fetch every page (streamed as NDJSON with --json)')
+    .option('--max-items <number>', 'Stop after this many results (implies --all)')
     .option('--location-id <id>', 'Filter by location ID')
     .option('--user-id <id>', 'Filter by user ID')
     .option('--hardware-id <id>', 'Filter by hardware ID (EUI)')
@@ -37,7 +358,7 @@ export function createDevicesCommands(): Command {
       externalId?: string;
       includeMetadata?: boolean;
     }) => {
-      const spinner = ora('Fetching devices...').start();
+      const spinner = startSpinner('Fetching devices...');
       try {
         const params: Record<string, unknown> = {
           limit: parseInt(options.limit as unknown as string, 10),
@@ -51,8 +372,9 @@ export function createDevicesCommands(): Command {
         if (options.externalId) params.external_id = options.externalId;
         if (options.includeMetadata) params.include_metadata = true;
 
-        const response = await apiGet<ApiResponse<Device>>('/v1.0/admin/things', params);
+        const response = await fetchList<Device>('/v1.0/admin/things', params, options, spinner);
         spinner.stop();
+        if (!response) return; // streamed as NDJSON
 
         const devices = response.rows || [];
         output(devices, {
@@ -69,8 +391,7 @@ export function createDevicesCommands(): Command {
         });
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch devices');
-        process.exit(1);
+        fail(err, 'Failed to fetch devices');
       }
     });
 
@@ -81,7 +402,7 @@ export function createDevicesCommands(): Command {
     .option('--hardware-id', 'Treat the ID as a hardware ID (EUI)')
     .option('--json', 'Output as JSON')
     .action(async (id: string, options: GlobalOptions & { hardwareId?: boolean }) => {
-      const spinner = ora('Fetching device...').start();
+      const spinner = startSpinner('Fetching device...');
       try {
         let deviceId = id;
 
@@ -95,8 +416,9 @@ export function createDevicesCommands(): Command {
         const device = await apiGet<Device>(`/v1.0/admin/things/${deviceId}`);
         spinner.stop();
 
-        if (options.json) {
-          output(device, { json: true });
+        recordResult(device);
+        if (isFormattedOutput(options.json)) {
+          output(device, { json: options.json });
         } else {
           header(`Device: ${device.thing_name}`);
           detail('ID', device.id);
@@ -113,8 +435,7 @@ export function createDevicesCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch device');
-        process.exit(1);
+        fail(err, 'Failed to fetch device');
       }
     });
 
@@ -143,8 +464,7 @@ export function createDevicesCommands(): Command {
           try {
             data = JSON.parse(options.data);
           } catch {
-            error('Invalid JSON in --data option');
-            process.exit(1);
+            fail(new CliError('Invalid JSON in --data option', 'validation'), 'Invalid JSON');
           }
         }
 
@@ -173,30 +493,27 @@ export function createDevicesCommands(): Command {
           try {
             payload.metadata = JSON.parse(options.metadata);
           } catch {
-            error('Invalid JSON in --metadata option');
-            process.exit(1);
+            fail(new CliError('Invalid JSON in --metadata option', 'validation'), 'Invalid JSON');
           }
         }
 
         // Validate required fields
         if (!deviceObj.name && !deviceObj.hardware_id) {
-          error('--name or --hardware-id is required');
-          process.exit(1);
+          fail(new CliError('--name or --hardware-id is required', 'validation'), 'Missing required option');
         }
 
-        const spinner = ora('Creating device...').start();
+        const spinner = startSpinner('Creating device...');
         const device = await apiPost<Device>('/v1.0/admin/things', payload);
         spinner.stop();
 
-        if (options.json) {
-          output(device, { json: true });
+        if (isFormattedOutput(options.json)) {
+          output(device, { json: options.json });
         } else {
           success('Device created successfully');
           detail('ID', device.id);
         }
       } catch (err) {
-        error(err instanceof Error ? err.message : 'Failed to create device');
-        process.exit(1);
+        fail(err, 'Failed to create device');
       }
     });
 
@@ -217,8 +534,7 @@ export function createDevicesCommands(): Command {
           try {
             data = JSON.parse(options.data);
           } catch {
-            error('Invalid JSON in --data option');
-            process.exit(1);
+            fail(new CliError('Invalid JSON in --data option', 'validation'), 'Invalid JSON');
           }
         }
 
@@ -231,45 +547,141 @@ export function createDevicesCommands(): Command {
           try {
             data.metadata = JSON.parse(options.metadata);
           } catch {
-            error('Invalid JSON in --metadata option');
-            process.exit(1);
+            fail(new CliError('Invalid JSON in --metadata option', 'validation'), 'Invalid JSON');
           }
         }
 
         if (Object.keys(data).length === 0) {
-          error('No fields to update. Provide --data or individual options.');
-          process.exit(1);
+          fail(new CliError('No fields to update. Provide --data or individual options.', 'validation'), 'Nothing to update');
         }
 
-        const spinner = ora('Updating device...').start();
+        const spinner = startSpinner('Updating device...');
         const device = await apiPut<Device>(`/v1.0/admin/things/${id}`, data);
         spinner.stop();
 
-        if (options.json) {
-          output(device, { json: true });
+        if (isFormattedOutput(options.json)) {
+          output(device, { json: options.json });
         } else {
           success('Device updated successfully');
         }
       } catch (err) {
-        error(err instanceof Error ? err.message : 'Failed to update device');
-        process.exit(1);
+        fail(err, 'Failed to update device');
+      }
+    });
+
+  const properties = devices
+    .command('properties')
+    .description('Get and change device properties, checked against the template form settings');
+
+  properties
+    .command('get')
+    .description('Show device properties alongside the form settings of its template')
+    .argument('<id>', 'Device ID')
+    .argument('[keys...]', 'Only these properties')
+    .option('--json', 'Output as JSON')
+    .action(async (id: string, keys: string[], options: GlobalOptions) => {
+      const spinner = startSpinner('Fetching device...');
+      try {
+        const target = await loadProperties(id);
+        spinner.stop();
+
+        const wanted = (key: string): boolean => keys.length === 0 || keys.includes(key);
+        const shown = Object.fromEntries(Object.entries(target.properties).filter(([key]) => wanted(key)));
+        recordResult(shown);
+        if (isFormattedOutput(options.json)) {
+          output(shown, { json: options.json });
+          return;
+        }
+
+        // Template settings first, in form order, then any other properties
+        const fieldKeys = new Set(target.fields.map((f) => f.key));
+        const rows = [
+          ...target.fields
+            .filter((f) => wanted(f.key))
+            .map((f) => [
+              f.key,
+              f.label + (f.required ? ' *' : ''),
+              f.key in shown ? formatPropertyValue(shown[f.key]) : '-',
+              f.default_value !== undefined ? String(f.default_value) : '-',
+            ]),
+          ...Object.entries(shown)
+            .filter(([key]) => !fieldKeys.has(key))
+            .map(([key, value]) => [key, '-', formatPropertyValue(value), '-']),
+        ];
+
+        if (rows.length === 0) {
+          console.log('No properties set');
+          return;
+        }
+        outputTable(['Key', 'Setting', 'Value', 'Default'], rows);
+        if (target.fields.some((f) => f.required)) {
+          console.log(chalk.gray('* required'));
+        }
+      } catch (err) {
+        spinner.stop();
+        fail(err, 'Failed to fetch properties');
       }
     });
 
+  properties
+    .command('set')
+    .description('Set device properties, checked against the template form settings')
+    .argument('<id>', 'Device ID')
+    .argument('<key=value...>', 'Properties to set')
+    .option('--dry-run', 'Show the changes without applying them')
+    .option('--force', 'Apply values that fail the form settings checks')
+    .option('-y, --yes', 'Apply without confirmation')
+    .option('--json', 'Output as JSON')
+    .action(async (id: string, assignments: string[], options: PropertyOptions) => {
+      let values: Record<string, string>;
+      try {
+        values = parseAssignments(assignments);
+      } catch (err) {
+        fail(err, 'Invalid properties');
+      }
+
+      await changeProperties(id, options, (target) => {
+        if (target.fields.length === 0) {
+          const owner = target.template ? `Template ${target.template} has no form settings` : 'The device has no template';
+          return {
+            properties: { ...target.properties, ...values },
+            problems: [`${owner} to check ${Object.keys(values).join(', ')} against`],
+          };
+        }
+        const checked = checkProperties(target.fields, values);
+        return { properties: { ...target.properties, ...checked.values }, problems: checked.problems };
+      });
+    });
+
+  properties
+    .command('unset')
+    .description('Remove device properties')
+    .argument('<id>', 'Device ID')
+    .argument('<keys...>', 'Properties to remove')
+    .option('--dry-run', 'Show the changes without applying them')
+    .option('--force', 'Remove required settings too')
+    .option('-y, --yes', 'Apply without confirmation')
+    .option('--json', 'Output as JSON')
+    .action(async (id: string, keys: string[], options: PropertyOptions) => {
+      await changeProperties(id, options, (target) => ({
+        properties: Object.fromEntries(Object.entries(target.properties).filter(([key]) => !keys.includes(key))),
+        problems: checkUnset(target.fields, keys.filter((key) => key in target.properties)),
+      }));
+    });
+
   devices
     .command('delete')
     .description('Delete a device')
     .argument('<id>', 'Device ID')
     .action(async (id: string) => {
-      const spinner = ora('Deleting device...').start();
+      const spinner = startSpinner('Deleting device...');
       try {
         await apiDelete(`/v1.0/admin/things/${id}`);
         spinner.stop();
         success('Device deleted successfully');
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to delete device');
-        process.exit(1);
+        fail(err, 'Failed to delete device');
       }
     });
 
@@ -283,10 +695,10 @@ export function createDevicesCommands(): Command {
         if (options.locationId) params.location_id = options.locationId;
 
         const response = await apiGet<{ count: number }>('/v1.0/admin/things/count', params);
+        recordResult(response);
         console.log(response.count);
       } catch (err) {
-        error(err instanceof Error ? err.message : 'Failed to get count');
-        process.exit(1);
+        fail(err, 'Failed to get count');
       }
     });
 
@@ -294,15 +706,21 @@ export function createDevicesCommands(): Command {
     .command('latest')
     .description('Get latest sensor readings for a device')
     .argument('<id>', 'Device ID')
+    .option('--raw', 'Show channel numbers and raw values instead of template names, units and statuses')
     .option('--json', 'Output as JSON')
-    .action(async (id: string, options: GlobalOptions) => {
-      const spinner = ora('Fetching latest readings...').start();
+    .action(async (id: string, options: GlobalOptions & { raw?: boolean }) => {
+      const spinner = startSpinner('Fetching latest readings...');
       try {
-        const readings = await apiGet<DeviceReading>(`/v1.0/admin/things/${id}/latest`);
+        const [latest, channels] = await Promise.all([
+          apiGet<DeviceReading>(`/v1.0/admin/things/${id}/latest`),
+          lookupChannels(id, options.raw),
+        ]);
         spinner.stop();
 
-        if (options.json) {
-          output(readings, { json: true });
+        const readings = options.raw ? latest : { ...latest, sensors: resolveSensors(latest.sensors ?? [], channels) };
+        recordResult(readings);
+        if (isFormattedOutput(options.json)) {
+          output(readings, { json: options.json });
         } else {
           const timestamp = readings.ts ? new Date(readings.ts).toLocaleString() : 'Unknown';
           header(`Latest Readings`);
@@ -312,7 +730,9 @@ export function createDevicesCommands(): Command {
           if (readings.sensors && readings.sensors.length > 0) {
             outputTable(
               ['Channel', 'Value'],
-              readings.sensors.map((s) => [s.channel, s.v])
+              options.raw
+                ? latest.sensors.map((s) => [s.channel, s.v])
+                : resolveSensors(latest.sensors, channels).map((s) => [s.name, s.display])
             );
           } else {
             console.log('  No sensor data available');
@@ -320,21 +740,37 @@ export function createDevicesCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch readings');
-        process.exit(1);
+        fail(err, 'Failed to fetch readings');
       }
     });
 
-  devices
+  const readings = devices
     .command('readings')
     .description('Get historical sensor readings for a device')
     .argument('<id>', 'Device ID')
     .option('--from <date>', 'Start date (ISO format)')
     .option('--to <date>', 'End date (ISO format)')
-    .option('-l, --limit <number>', 'Results limit', '100')
+    .option('-l, --limit <number>', 'Results limit (readings per request with --bucket)', '100')
+    .option('--bucket <duration>', 'Aggregate per channel over time buckets, e.g. 15m, 1h or 1d (needs --from)', parseDuration)
+    .option('--agg <list>', `Aggregates with --bucket: ${AGGREGATES.join(', ')} (default: avg)`, parseAggregates)
+    .option('--raw', 'Show channel numbers and raw values instead of template names, units and statuses')
     .option('--json', 'Output as JSON')
-    .action(async (id: string, options: GlobalOptions & { from?: string; to?: string; limit?: string }) => {
-      const spinner = ora('Fetching readings...').start();
+    .action(async (id: string, options: GlobalOptions & {
+      from?: string;
+      to?: string;
+      limit?: string;
+      bucket?: number;
+      agg?: Aggregate[];
+      raw?: boolean;
+    }) => {
+      if (options.agg && !options.bucket) {
+        fail(new CliError('--agg needs --bucket', 'validation'), 'Invalid options');
+      }
+      if (options.bucket && !options.from) {
+        fail(new CliError('--bucket needs --from to know which readings to aggregate', 'validation'), 'Invalid options');
+      }
+
+      const spinner = startSpinner('Fetching readings...');
       try {
         const params: Record<string, unknown> = {
           limit: parseInt(options.limit || '100', 10),
@@ -342,11 +778,35 @@ export function createDevicesCommands(): Command {
         if (options.from) params.from = new Date(options.from).getTime();
         if (options.to) params.to = new Date(options.to).getTime();
 
-        const readings = await apiGet<DeviceReading[]>(`/v1.0/admin/things/${id}/readings`, params);
+        if (options.bucket) {
+          // Every reading in the range, not just one page
+          const [all, channels] = await Promise.all([
+            fetchReadingsRange(
+              id,
+              params.from as number,
+              ((params.to as number | undefined) ?? Date.now()) + 1,
+              params.limit as number
+            ),
+            lookupChannels(id, options.raw),
+          ]);
+          spinner.stop();
+          outputBuckets(aggregateReadings(all, options.bucket, options.agg ?? ['avg']), all.length, channels, options);
+          return;
+        }
+
+        const [fetched, channels] = await Promise.all([
+          apiGet<DeviceReading[]>(`/v1.0/admin/things/${id}/readings`, params),
+          lookupChannels(id, options.raw),
+        ]);
         spinner.stop();
 
-        if (options.json) {
-          output(readings, { json: true });
+        const readings = options.raw
+          ? fetched
+          : fetched.map((r) => ({ ...r, sensors: resolveSensors(r.sensors ?? [], channels) }));
+
+        recordResult(readings);
+        if (isFormattedOutput(options.json)) {
+          output(readings, { json: options.json });
         } else {
           if (readings.length === 0) {
             console.log('No readings found for the specified period');
@@ -354,9 +814,11 @@ export function createDevicesCommands(): Command {
           }
 
           // Show readings as a table
-          const rows = readings.map((r) => {
+          const rows = fetched.map((r) => {
             const timestamp = new Date(r.ts).toLocaleString();
-            const values = r.sensors?.map((s) => `ch${s.channel}:${s.v}`).join(', ') || '-';
+            const values = options.raw
+              ? r.sensors?.map((s) => `ch${s.channel}:${s.v}`).join(', ') || '-'
+              : resolveSensors(r.sensors ?? [], channels).map((s) => `${s.name}: ${s.display}`).join(', ') || '-';
             return [timestamp, values];
           });
 
@@ -365,34 +827,349 @@ export function createDevicesCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch readings');
-        process.exit(1);
+        fail(err, 'Failed to fetch readings');
+      }
+    });
+
+  readings
+    .command('export')
+    .description('Export readings over a time range to a CSV or NDJSON file, one column per channel')
+    .argument('<id>', 'Device ID')
+    .requiredOption('--from <date>', 'Start date (ISO format)', parseTime)
+    .option('--to <date>', 'End date (ISO format, default: now; a resumed export keeps its own)', parseTime)
+    .requiredOption('-o, --output <file>', 'File to write (.csv, .ndjson or .jsonl)')
+    .addOption(
+      new Option('--file-format <format>', 'File format (default: from the file extension, else csv)').choices(['csv', 'ndjson', 'jsonl'])
+    )
+    .option('--window <duration>', `Time range fetched at a time, e.g. 6h or 1d (default: ${DEFAULT_EXPORT_WINDOW})`, parseDuration)
+    .option('-l, --limit <number>', `Readings per request (default: ${DEFAULT_EXPORT_PAGE_SIZE})`, parsePageSize)
+    .option('--restart', 'Start over instead of resuming an interrupted export')
+    .option('--json', 'Output the summary as JSON')
+    .action(async (id: string, options: GlobalOptions & {
+      from: number;
+      to?: number;
+      output: string;
+      fileFormat?: string;
+      window?: number;
+      limit?: number;
+      restart?: boolean;
+    }) => {
+      if (options.from >= (options.to ?? Date.now())) {
+        fail(new CliError('--from must be before --to', 'validation'), 'Invalid time range');
+      }
+
+      const extensionFormat = /\.(ndjson|jsonl)$/i.test(options.output) ? 'ndjson' : 'csv';
+      const format: ExportFormat = options.fileFormat
+        ? (options.fileFormat === 'csv' ? 'csv' : 'ndjson')
+        : extensionFormat;
+
+      const spinner = startSpinner('Exporting readings...');
+      try {
+        const summary = await exportReadings({
+          deviceId: id,
+          from: options.from,
+          to: options.to,
+          windowMs: options.window ?? parseDuration(DEFAULT_EXPORT_WINDOW),
+          pageSize: options.limit ?? DEFAULT_EXPORT_PAGE_SIZE,
+          file: options.output,
+          format,
+          restart: options.restart,
+          onProgress: ({ window, windows, rows }) => {
+            spinner.text = `Exporting readings: window ${window}/${windows}, ${rows} readings written`;
+          },
+        });
+        spinner.stop();
+
+        if (isFormattedOutput(options.json)) {
+          output(summary, { json: options.json });
+        } else {
+          success(`Exported ${summary.rows} readings to ${summary.file}`);
+          detail('Format', summary.format);
+          detail('Columns', ['timestamp', ...summary.columns.map((c) => c.name)].join(', '));
+          detail('Windows', summary.windows);
+          if (summary.resumedFrom !== undefined) {
+            detail('Resumed from', new Date(summary.resumedFrom).toISOString());
+          }
+          if (summary.droppedChannels.length > 0) {
+            warn(
+              `Left out channels not in the device template: ${summary.droppedChannels.join(', ')} ` +
+              '(export as NDJSON to include them)'
+            );
+          }
+        }
+      } catch (err) {
+        spinner.stop();
+        // Local validation errors mean the saved progress can't be resumed as it is
+        const unresumable = err instanceof CliError && !(err instanceof ApiError) && err.kind === 'validation';
+        const statePath = getExportStatePath(options.output);
+        if (existsSync(statePath) && !unresumable) {
+          info(`Progress is saved in ${statePath}; the same command resumes it`);
+        }
+        fail(err, 'Failed to export readings');
+      }
+    });
+
+  devices
+    .command('tail')
+    .description('Follow new readings from one or more devices as they arrive')
+    .argument('<ids...>', 'Device IDs')
+    .option('--interval <duration>', `Time between polls, e.g. 10s or 1m (default: ${DEFAULT_TAIL_INTERVAL})`, parseDuration)
+    .option('--for <duration>', 'Stop after this long, e.g. 30s or 10m', parseDuration)
+    .option('--count <n>', 'Stop after this many new readings across all devices', parsePageSize)
+    .option(
+      '--threshold <rule>',
+      'Highlight values that meet a rule, e.g. Temperature>30 or Door=Open (repeatable)',
+      (val: string, prev: Threshold[]) => [...prev, parseThreshold(val)],
+      [] as Threshold[]
+    )
+    .option('--raw', 'Show channel numbers and raw values instead of template names, units and statuses')
+    .option('--json', 'Output as NDJSON, one reading per line')
+    .action(async (ids: string[], options: GlobalOptions & {
+      interval?: number;
+      for?: number;
+      count?: number;
+      threshold: Threshold[];
+      raw?: boolean;
+    }) => {
+      const interval = options.interval ?? parseDuration(DEFAULT_TAIL_INTERVAL);
+      const deadline = options.for !== undefined ? Date.now() + options.for : undefined;
+      const lastSeen = new Map<string, number>();
+      const reporting = new Set<string>();
+      let received = 0;
+
+      try {
+        const channels = new Map(
+          await Promise.all(ids.map(async (id) => [id, await lookupChannels(id, options.raw)] as const))
+        );
+        if (!isFormattedOutput(options.json)) {
+          info(`Following ${ids.join(', ')} every ${interval / 1000}s (Ctrl-C to stop)`);
+        }
+
+        // A device's first successful poll shows its current reading; only
+        // readings after that count as new
+        const polled = new Set<string>();
+        for (;;) {
+          const latest = await Promise.all(ids.map((id) => pollLatest(id, options)));
+          ids.forEach((id, i) => {
+            const reading = latest[i];
+            if (reading === undefined) return; // failed poll, already reported
+            const initial = !polled.has(id);
+            polled.add(id);
+
+            const previous = lastSeen.get(id);
+            if (!reading?.ts || (previous !== undefined && reading.ts <= previous)) return;
+
+            lastSeen.set(id, reading.ts);
+            if (!initial) {
+              received++;
+              reporting.add(id);
+            }
+            printTailReading(id, reading, channels.get(id)!, options, initial);
+          });
+
+          if (options.count !== undefined && received >= options.count) break;
+          if (deadline !== undefined && Date.now() >= deadline) break;
+          await sleep(deadline !== undefined ? Math.min(interval, deadline - Date.now()) : interval);
+        }
+      } catch (err) {
+        fail(err, 'Failed to follow readings');
+      }
+
+      const silent = ids.filter((id) => !reporting.has(id));
+      if (options.count !== undefined && received < options.count) {
+        fail(new CliError(
+          `Received ${received} of ${options.count} new readings before --for ran out` +
+          (silent.length > 0 ? `; nothing new from ${silent.join(', ')}` : ''),
+          'partial_failure'
+        ), 'Too few new readings');
+      }
+      if (!isFormattedOutput(options.json)) {
+        if (silent.length > 0) {
+          warn(`No new readings from ${silent.join(', ')}`);
+        }
+        success(`Received ${received} new reading${received === 1 ? '' : 's'}`);
+      }
+    });
+
+  devices
+    .command('health')
+    .description('Report which devices are online, late or offline from the age of their latest reading')
+    .option('--location-id <id>', 'Only devices at this location')
+    .option('--company <id>', 'Only devices of this company')
+    .option('--late-factor <n>', `Late once the latest reading is older than n broadcast intervals (default: ${DEFAULT_LATE_FACTOR})`, parsePositiveNumber)
+    .option('--offline-factor <n>', `Offline once the latest reading is older than n broadcast intervals (default: ${DEFAULT_OFFLINE_FACTOR})`, parsePositiveNumber)
+    .option('--default-interval <minutes>', 'Broadcast interval for devices whose template has none', parsePositiveNumber)
+    .option('--state <list>', 'Only list devices in these states, e.g. late,offline (summaries count every device)', parseHealthStates)
+    .option('--concurrency <n>', `Requests to run in parallel (1-${MAX_CONCURRENCY})`, parseConcurrency, DEFAULT_CONCURRENCY)
+    .option('--json', 'Output as JSON')
+    .action(async (options: GlobalOptions & {
+      locationId?: string;
+      company?: string;
+      lateFactor?: number;
+      offlineFactor?: number;
+      defaultInterval?: number;
+      state?: HealthState[];
+      concurrency: number;
+    }) => {
+      const lateFactor = options.lateFactor ?? DEFAULT_LATE_FACTOR;
+      const offlineFactor = options.offlineFactor ?? DEFAULT_OFFLINE_FACTOR;
+      if (offlineFactor <= lateFactor) {
+        fail(new CliError(`--offline-factor (${offlineFactor}) must be greater than --late-factor (${lateFactor})`, 'validation'), 'Invalid factors');
+      }
+
+      const spinner = startSpinner('Fetching devices...');
+      try {
+        const report = await checkFleetHealth({
+          locationId: options.locationId,
+          companyId: options.company,
+          lateFactor,
+          offlineFactor,
+          defaultInterval: options.defaultInterval,
+          concurrency: options.concurrency,
+          onProgress: (done, total) => {
+            spinner.text = `Fetching latest readings ${done}/${total}...`;
+          },
+        });
+        spinner.stop();
+
+        if (options.state) {
+          report.devices = report.devices.filter((d) => options.state!.includes(d.state));
+        }
+
+        recordResult(report);
+        if (isFormattedOutput(options.json)) {
+          output(report, { json: options.json });
+          return;
+        }
+
+        if (report.devices.length > 0) {
+          outputTable(
+            ['Device', 'ID', 'Location', 'Company', 'Last Reading', 'Interval', 'State'],
+            sortResults(report.devices).map((d: DeviceHealth) => [
+              d.name,
+              d.id,
+              d.location ?? '-',
+              d.company ?? '-',
+              d.lastReading ? `${formatAge(d.ageMinutes)} ago` : d.state === 'unknown' ? '-' : 'never',
+              d.intervalMinutes !== null ? `${d.intervalMinutes}m` : '-',
+              STATE_COLORS[d.state](d.state) + (d.reason ? chalk.gray(` (${d.reason})`) : ''),
+            ])
+          );
+        } else {
+          console.log(options.state ? `No ${options.state.join(' or ')} devices` : 'No devices found');
+        }
+
+        if (report.summary.total > 0) {
+          outputHealthGroups('By Location', report.byLocation);
+          outputHealthGroups('By Company', report.byCompany);
+        }
+
+        const { summary } = report;
+        console.log(
+          `\nTotal: ${summary.total} devices, ` +
+          [
+            STATE_COLORS.online(`${summary.online} online`),
+            STATE_COLORS.late(`${summary.late} late`),
+            STATE_COLORS.offline(`${summary.offline} offline`),
+            STATE_COLORS.unknown(`${summary.unknown} unknown`),
+          ].join(', ')
+        );
+      } catch (err) {
+        spinner.stop();
+        fail(err, 'Failed to check device health');
       }
     });
 
   devices
     .command('cmd')
-    .description('Send a command to a device')
+    .description('Send a command to a device, checked against its template and previewed with its codec')
     .argument('<id>', 'Device ID')
-    .requiredOption('--channel <number>', 'Channel number')
-    .requiredOption('--value <value>', 'Value to send')
-    .action(async (id: string, options: { channel: string; value: string }) => {
-      const spinner = ora('Sending command...').start();
-      try {
-        const data = {
-          channel: parseInt(options.channel, 10),
-          value: options.value,
-        };
+    .requiredOption('--channel <channel>', 'Channel number or name')
+    .option('--value <value>', 'Value to send, as text')
+    .option('--value-json <json>', 'Value to send as JSON, e.g. 21.5, true or \'{"mode":"heat"}\'')
+    .option('--dry-run', 'Check and encode the command without sending it')
+    .option('--confirm', 'Ask before sending, after showing the payload')
+    .option('--force', 'Send even if the channel is not commandable or the codec rejects the value')
+    .option('--json', 'Output as JSON')
+    .action(async (id: string, options: GlobalOptions & {
+      channel: string;
+      value?: string;
+      valueJson?: string;
+      dryRun?: boolean;
+      confirm?: boolean;
+      force?: boolean;
+    }) => {
+      if ((options.value === undefined) === (options.valueJson === undefined)) {
+        fail(new CliError('Pass either --value or --value-json', 'validation'), 'Invalid options');
+      }
+      let value: unknown = options.value;
+      if (options.valueJson !== undefined) {
+        try {
+          value = JSON.parse(options.valueJson);
+        } catch (err) {
+          fail(new CliError(`--value-json is not valid JSON: ${(err as Error).message}`, 'validation'), 'Invalid JSON');
+        }
+      }
 
-        await apiPost(`/v1.0/admin/things/${id}/cmd`, data);
+      const spinner = startSpinner('Checking command...');
+      let downlink: Downlink;
+      try {
+        downlink = await prepareDownlink(id, { channel: options.channel, value, force: options.force });
         spinner.stop();
-        success('Command sent successfully');
-        detail('Channel', options.channel);
-        detail('Value', options.value);
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to send command');
-        process.exit(1);
+        fail(err, 'Failed to check command');
+      }
+
+      const result = {
+        device: downlink.device.id,
+        channel: downlink.channel,
+        channelName: downlink.channelName,
+        value: downlink.value,
+        codec: downlink.codec,
+        payload: downlink.payload,
+        warnings: downlink.warnings,
+        sent: false,
+      };
+      if (!isFormattedOutput(options.json)) {
+        showDownlink(downlink);
+      }
+
+      if (options.dryRun) {
+        if (isFormattedOutput(options.json)) {
+          output(result, { json: options.json });
+        } else {
+          info('Dry run: the command was not sent');
+        }
+        return;
+      }
+
+      if (options.confirm) {
+        let proceed = false;
+        try {
+          proceed = await confirmAction(`Send this command to ${downlink.device.thing_name || id}?`);
+        } catch (err) {
+          fail(err, 'Command not confirmed');
+        }
+        if (!proceed) {
+          console.log(chalk.yellow('Command cancelled'));
+          process.exit(0);
+        }
+      }
+
+      const sendSpinner = startSpinner('Sending command...');
+      try {
+        await sendDownlink(downlink);
+        sendSpinner.stop();
+        result.sent = true;
+        if (isFormattedOutput(options.json)) {
+          output(result, { json: options.json });
+        } else {
+          success('Command sent successfully');
+        }
+      } catch (err) {
+        sendSpinner.stop();
+        fail(err, 'Failed to send command');
       }
     });
 
@@ -402,13 +1179,14 @@ export function createDevicesCommands(): Command {
     .argument('<hardware-id>', 'Hardware ID (EUI)')
     .option('--json', 'Output as JSON')
     .action(async (hardwareId: string, options: GlobalOptions) => {
-      const spinner = ora('Looking up device...').start();
+      const spinner = startSpinner('Looking up device...');
       try {
         const device = await apiGet<Device>(`/v1.0/admin/things/${hardwareId}/status`);
         spinner.stop();
 
-        if (options.json) {
-          output(device, { json: true });
+        recordResult(device);
+        if (isFormattedOutput(options.json)) {
+          output(device, { json: options.json });
         } else {
           header('Device Found');
           detail('ID', device.id);
@@ -419,8 +1197,7 @@ export function createDevicesCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Device not found');
-        process.exit(1);
+        fail(err, 'Device not found');
       }
     });
 
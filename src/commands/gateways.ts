@@ -1,11 +1,13 @@
 import { Command } from 'commander';
-import ora from 'ora';
-import { confirm, select } from '@inquirer/prompts';
+import { select } from '@inquirer/prompts';
 import { apiGet, apiPost } from '../lib/api.js';
 import { getConfig } from '../lib/config.js';
-import { output, header, detail, success } from '../lib/output.js';
-import { error } from '../lib/output.js';
-import type { ApiResponse, GlobalOptions, ListOptions } from '../types/index.js';
+import { httpGet } from '../lib/http.js';
+import { fetchList } from '../lib/paginate.js';
+import { output, header, detail, success, fail, isFormattedOutput, recordResult } from '../lib/output.js';
+import { CliError } from '../lib/errors.js';
+import { startSpinner, confirmAction, ensureInteractive } from '../lib/interactive.js';
+import type { GlobalOptions, ListOptions } from '../types/index.js';
 
 // ============================================================================
 // Types
@@ -171,6 +173,8 @@ export function createGatewaysCommands(): Command {
     .description('List gateways')
     .option('-l, --limit <number>', 'Results per page', '20')
     .option('-p, --page <number>', 'Page number', '0')
+    .option('--all', 'Fetch every page (streamed as NDJSON with --json)')
+    .option('--max-items <number>', 'Stop after this many results (implies --all)')
     .option('--status <status>', 'Filter by status')
     .option('--network <network>', 'Filter by network')
     .option('--filter <expression>', 'Raw filter expression')
@@ -180,7 +184,7 @@ export function createGatewaysCommands(): Command {
       network?: string;
       filter?: string;
     }) => {
-      const spinner = ora('Fetching gateways...').start();
+      const spinner = startSpinner('Fetching gateways...');
       try {
         const params: Record<string, unknown> = {
           limit: parseInt(options.limit as unknown as string, 10),
@@ -197,8 +201,9 @@ export function createGatewaysCommands(): Command {
           params.filter = filters.join(',');
         }
 
-        const response = await apiGet<ApiResponse<GatewayListEntry>>(getGatewaysPath(), params);
+        const response = await fetchList<GatewayListEntry>(getGatewaysPath(), params, options, spinner);
         spinner.stop();
+        if (!response) return; // streamed as NDJSON
 
         const gatewayList = response.rows || [];
         output(gatewayList, {
@@ -215,8 +220,7 @@ export function createGatewaysCommands(): Command {
         });
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch gateways');
-        process.exit(1);
+        fail(err, 'Failed to fetch gateways');
       }
     });
 
@@ -230,15 +234,16 @@ export function createGatewaysCommands(): Command {
     .option('--json', 'Output as JSON')
     .action(async (hardwareId: string, options: GlobalOptions) => {
       hardwareId = normalizeHardwareId(hardwareId);
-      const spinner = ora('Fetching gateway...').start();
+      const spinner = startSpinner('Fetching gateway...');
       try {
         const response = await apiGet<GatewayResponse>(`${getGatewaysPath()}/${hardwareId}`);
         spinner.stop();
 
         const gateway = response.gateway;
 
-        if (options.json) {
-          output(response, { json: true });
+        recordResult(response);
+        if (isFormattedOutput(options.json)) {
+          output(response, { json: options.json });
         } else {
           header(`Gateway: ${gateway.hardware_id}`);
           detail('ID', gateway.id);
@@ -274,8 +279,7 @@ export function createGatewaysCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch gateway');
-        process.exit(1);
+        fail(err, 'Failed to fetch gateway');
       }
     });
 
@@ -298,7 +302,7 @@ export function createGatewaysCommands(): Command {
       timezone?: string;
     }) => {
       hardwareId = normalizeHardwareId(hardwareId);
-      const spinner = ora('Fetching ping histogram...').start();
+      const spinner = startSpinner('Fetching ping histogram...');
       try {
         let startTime: number;
         let endTime: number;
@@ -332,8 +336,9 @@ export function createGatewaysCommands(): Command {
 
         const histogram = response.histogram || [];
 
-        if (options.json) {
-          output(response, { json: true });
+        recordResult(response);
+        if (isFormattedOutput(options.json)) {
+          output(response, { json: options.json });
         } else {
           header(`Ping Histogram: ${hardwareId}`);
           console.log(`Period: ${new Date(startTime * 1000).toLocaleString()} - ${new Date(endTime * 1000).toLocaleString()}`);
@@ -364,8 +369,7 @@ export function createGatewaysCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch ping histogram');
-        process.exit(1);
+        fail(err, 'Failed to fetch ping histogram');
       }
     });
 
@@ -379,7 +383,7 @@ export function createGatewaysCommands(): Command {
     .option('--json', 'Output as JSON')
     .action(async (hardwareId: string, options: GlobalOptions) => {
       hardwareId = normalizeHardwareId(hardwareId);
-      const spinner = ora('Fetching gateway stats...').start();
+      const spinner = startSpinner('Fetching gateway stats...');
       try {
         const response = await apiGet<GatewayStatsResponse>(
           `${getGatewaysPath()}/${hardwareId}/stats`
@@ -388,8 +392,9 @@ export function createGatewaysCommands(): Command {
 
         const stats = response.result || [];
 
-        if (options.json) {
-          output(response, { json: true });
+        recordResult(response);
+        if (isFormattedOutput(options.json)) {
+          output(response, { json: options.json });
         } else {
           header(`Gateway Stats: ${hardwareId}`);
 
@@ -478,8 +483,7 @@ export function createGatewaysCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch gateway stats');
-        process.exit(1);
+        fail(err, 'Failed to fetch gateway stats');
       }
     });
 
@@ -495,32 +499,26 @@ export function createGatewaysCommands(): Command {
     .action(async (hardwareId: string, options: GlobalOptions & { yes?: boolean }) => {
       hardwareId = normalizeHardwareId(hardwareId);
       try {
-        if (!options.yes) {
-          const confirmed = await confirm({
-            message: `Are you sure you want to reboot gateway ${hardwareId}?`,
-            default: false,
-          });
-          if (!confirmed) {
-            console.log('Reboot cancelled.');
-            return;
-          }
+        const confirmed = await confirmAction(`Are you sure you want to reboot gateway ${hardwareId}?`, { yes: options.yes });
+        if (!confirmed) {
+          console.log('Reboot cancelled.');
+          return;
         }
 
-        const spinner = ora(`Sending reboot command to ${hardwareId}...`).start();
+        const spinner = startSpinner(`Sending reboot command to ${hardwareId}...`);
         const response = await apiPost<Record<string, unknown>>(
           `${getGatewaysPath()}/${hardwareId}/commands`,
           { command: 'reboot' }
         );
         spinner.stop();
 
-        if (options.json) {
-          output(response, { json: true });
+        if (isFormattedOutput(options.json)) {
+          output(response, { json: options.json });
         } else {
           success(`Reboot command sent to gateway ${hardwareId}`);
         }
       } catch (err) {
-        error(err instanceof Error ? err.message : 'Failed to send reboot command');
-        process.exit(1);
+        fail(err, 'Failed to send reboot command');
       }
     });
 
@@ -531,19 +529,21 @@ export function createGatewaysCommands(): Command {
     .command('update-software')
     .description('Update software on a gateway')
     .argument('<hardware-id>', 'Gateway hardware ID (e.g., eui-647fdafffe01433c)')
+    .option('--software <name>', 'Software to install, as <software> or <gateway-type>/<software>')
+    .option('-y, --yes', 'Skip confirmation prompt')
     .option('--json', 'Output as JSON')
-    .action(async (hardwareId: string, options: GlobalOptions) => {
+    .action(async (hardwareId: string, options: GlobalOptions & { software?: string; yes?: boolean }) => {
       hardwareId = normalizeHardwareId(hardwareId);
       try {
-        const spinner = ora('Fetching available updates...').start();
-        const res = await fetch('https://docs.mydevices.com/artifacts/latest.json');
-        if (!res.ok) {
+        const spinner = startSpinner('Fetching available updates...');
+        let manifest: ArtifactManifest;
+        try {
+          manifest = await httpGet<ArtifactManifest>('https://docs.mydevices.com/artifacts/latest.json');
           spinner.stop();
-          error(`Failed to fetch update manifest: ${res.statusText}`);
-          process.exit(1);
+        } catch (err) {
+          spinner.stop();
+          fail(err, 'Failed to fetch update manifest');
         }
-        const manifest: ArtifactManifest = await res.json() as ArtifactManifest;
-        spinner.stop();
 
         // Build choices from manifest
         const choices: { name: string; value: { gateway: string; software: string; artifact: SoftwareArtifact } }[] = [];
@@ -556,22 +556,38 @@ export function createGatewaysCommands(): Command {
           }
         }
 
-        const selected = await select({
-          message: 'Select software to install:',
-          choices,
-        });
+        let selected: (typeof choices)[number]['value'];
+        if (options.software) {
+          const matches = choices.filter(
+            ({ value }) => options.software === value.software || options.software === `${value.gateway}/${value.software}`
+          );
+          const available = choices.map(({ value }) => `${value.gateway}/${value.software}`).join(', ');
+          if (matches.length === 0) {
+            throw new CliError(`No software "${options.software}" in the update manifest (available: ${available})`, 'validation');
+          }
+          if (matches.length > 1) {
+            throw new CliError(`"${options.software}" is available for several gateway types; use one of: ${available}`, 'validation');
+          }
+          selected = matches[0].value;
+        } else {
+          ensureInteractive('the software to install', 'pass --software <gateway-type>/<software>');
+          selected = await select({
+            message: 'Select software to install:',
+            choices,
+          });
+        }
 
-        const confirmed = await confirm({
-          message: `Update ${selected.software} ${selected.artifact.version} (${selected.gateway}) on ${hardwareId}?`,
-          default: false,
-        });
+        const confirmed = await confirmAction(
+          `Update ${selected.software} ${selected.artifact.version} (${selected.gateway}) on ${hardwareId}?`,
+          { yes: options.yes }
+        );
 
         if (!confirmed) {
           console.log('Update cancelled.');
           return;
         }
 
-        const updateSpinner = ora(`Sending update command to ${hardwareId}...`).start();
+        const updateSpinner = startSpinner(`Sending update command to ${hardwareId}...`);
         const response = await apiPost<Record<string, unknown>>(
           `${getGatewaysPath()}/${hardwareId}/commands`,
           {
@@ -584,16 +600,15 @@ export function createGatewaysCommands(): Command {
         );
         updateSpinner.stop();
 
-        if (options.json) {
-          output(response, { json: true });
+        if (isFormattedOutput(options.json)) {
+          output(response, { json: options.json });
         } else {
           success(`Update command sent to gateway ${hardwareId}`);
           detail('Software', `${selected.software} ${selected.artifact.version}`);
           detail('Gateway Type', selected.gateway);
         }
       } catch (err) {
-        error(err instanceof Error ? err.message : 'Failed to send update command');
-        process.exit(1);
+        fail(err, 'Failed to send update command');
       }
     });
 
@@ -612,6 +627,11 @@ export function createGatewaysCommands(): Command {
 
       let provider = options.provider;
       if (!provider) {
+        try {
+          ensureInteractive('the target provider', 'pass --provider azure or --provider mydevices');
+        } catch (err) {
+          fail(err, 'Provider is required');
+        }
         provider = (await select({
           message: 'Select target provider:',
           choices: [
@@ -622,37 +642,33 @@ export function createGatewaysCommands(): Command {
       }
 
       if (provider !== 'azure' && provider !== 'mydevices') {
-        error(`Invalid provider "${provider}". Must be "azure" or "mydevices".`);
-        process.exit(1);
+        fail(new CliError(`Invalid provider "${provider}". Must be "azure" or "mydevices".`, 'validation'), 'Invalid option');
       }
 
       try {
-        if (!options.yes) {
-          const confirmed = await confirm({
-            message: `Are you sure you want to migrate gateway ${hardwareId} to provider "${provider}"?`,
-            default: false,
-          });
-          if (!confirmed) {
-            console.log('Migration cancelled.');
-            return;
-          }
+        const confirmed = await confirmAction(
+          `Are you sure you want to migrate gateway ${hardwareId} to provider "${provider}"?`,
+          { yes: options.yes }
+        );
+        if (!confirmed) {
+          console.log('Migration cancelled.');
+          return;
         }
 
-        const spinner = ora(`Migrating ${hardwareId} to provider "${provider}"...`).start();
+        const spinner = startSpinner(`Migrating ${hardwareId} to provider "${provider}"...`);
         const response = await apiPost<Record<string, unknown>>(
           `${getGatewaysPath()}/${hardwareId}/migrate-provider`,
           { provider }
         );
         spinner.stop();
 
-        if (options.json) {
-          output(response, { json: true });
+        if (isFormattedOutput(options.json)) {
+          output(response, { json: options.json });
         } else {
           success(`Gateway ${hardwareId} migrated to provider "${provider}"`);
         }
       } catch (err) {
-        error(err instanceof Error ? err.message : 'Failed to migrate gateway provider');
-        process.exit(1);
+        fail(err, 'Failed to migrate gateway provider');
       }
     });
 
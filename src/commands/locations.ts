@@ -1,8 +1,10 @@
 import { Command } from 'commander';
-import ora from 'ora';
 import { apiGet, apiPost, apiPut, apiDelete } from '../lib/api.js';
-import { output, success, error, header, detail } from '../lib/output.js';
-import type { Location, ApiResponse, GlobalOptions, ListOptions } from '../types/index.js';
+import { fetchList } from '../lib/paginate.js';
+import { CliError } from '../lib/errors.js';
+import { output, success, header, detail, fail, isFormattedOutput, recordResult } from '../lib/output.js';
+import { startSpinner } from '../lib/interactive.js';
+import type { Location, GlobalOptions, ListOptions } from '../types/index.js';
 
 export function createLocationsCommands(): Command {
   const locations = new Command('locations').description('Manage locations');
@@ -12,11 +14,13 @@ export function createLocationsCommands(): Command {
     .description('List all locations')
     .option('-l, --limit <number>', 'Results per page', '20')
     .option('-p, --page <number>', 'Page number', '0')
+    .option('--all', 'Fetch every page (streamed as NDJSON with --json)')
+    .option('--max-items <number>', 'Stop after this many results (implies --all)')
     .option('--user-id <id>', 'Filter by user ID')
     .option('--external-id <id>', 'Filter by external ID')
     .option('--json', 'Output as JSON')
     .action(async (options: ListOptions & { userId?: string; externalId?: string }) => {
-      const spinner = ora('Fetching locations...').start();
+      const spinner = startSpinner('Fetching locations...');
       try {
         const params: Record<string, unknown> = {
           limit: parseInt(options.limit as unknown as string, 10),
@@ -25,8 +29,9 @@ export function createLocationsCommands(): Command {
         if (options.userId) params.user_id = options.userId;
         if (options.externalId) params.external_id = options.externalId;
 
-        const response = await apiGet<ApiResponse<Location>>('/v1.0/admin/locations', params);
+        const response = await fetchList<Location>('/v1.0/admin/locations', params, options, spinner);
         spinner.stop();
+        if (!response) return; // streamed as NDJSON
 
         const locations = response.rows || [];
         output(locations, {
@@ -37,8 +42,7 @@ export function createLocationsCommands(): Command {
         });
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch locations');
-        process.exit(1);
+        fail(err, 'Failed to fetch locations');
       }
     });
 
@@ -48,13 +52,14 @@ export function createLocationsCommands(): Command {
     .argument('<id>', 'Location ID')
     .option('--json', 'Output as JSON')
     .action(async (id: string, options: GlobalOptions) => {
-      const spinner = ora('Fetching location...').start();
+      const spinner = startSpinner('Fetching location...');
       try {
         const location = await apiGet<Location>(`/v1.0/admin/locations/${id}`);
         spinner.stop();
 
-        if (options.json) {
-          output(location, { json: true });
+        recordResult(location);
+        if (isFormattedOutput(options.json)) {
+          output(location, { json: options.json });
         } else {
           header(`Location: ${location.name}`);
           detail('ID', location.id);
@@ -71,8 +76,7 @@ export function createLocationsCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch location');
-        process.exit(1);
+        fail(err, 'Failed to fetch location');
       }
     });
 
@@ -99,8 +103,7 @@ export function createLocationsCommands(): Command {
           try {
             data = JSON.parse(options.data);
           } catch {
-            error('Invalid JSON in --data option');
-            process.exit(1);
+            fail(new CliError('Invalid JSON in --data option', 'validation'), 'Invalid JSON');
           }
         }
 
@@ -118,27 +121,24 @@ export function createLocationsCommands(): Command {
 
         // Validate required fields
         if (!data.name) {
-          error('--name is required (or provide in --data)');
-          process.exit(1);
+          fail(new CliError('--name is required (or provide in --data)', 'validation'), 'Missing required option');
         }
         if (!data.industry) {
-          error('--industry is required (or provide in --data)');
-          process.exit(1);
+          fail(new CliError('--industry is required (or provide in --data)', 'validation'), 'Missing required option');
         }
 
-        const spinner = ora('Creating location...').start();
+        const spinner = startSpinner('Creating location...');
         const location = await apiPost<Location>('/v1.0/admin/locations', data);
         spinner.stop();
 
-        if (options.json) {
-          output(location, { json: true });
+        if (isFormattedOutput(options.json)) {
+          output(location, { json: options.json });
         } else {
           success('Location created successfully');
           detail('ID', location.id);
         }
       } catch (err) {
-        error(err instanceof Error ? err.message : 'Failed to create location');
-        process.exit(1);
+        fail(err, 'Failed to create location');
       }
     });
 
@@ -164,8 +164,7 @@ export function createLocationsCommands(): Command {
           try {
             data = JSON.parse(options.data);
           } catch {
-            error('Invalid JSON in --data option');
-            process.exit(1);
+            fail(new CliError('Invalid JSON in --data option', 'validation'), 'Invalid JSON');
           }
         }
 
@@ -180,22 +179,20 @@ export function createLocationsCommands(): Command {
         if (options.industry) data.industry = options.industry;
 
         if (Object.keys(data).length === 0) {
-          error('No fields to update. Provide --data or individual options.');
-          process.exit(1);
+          fail(new CliError('No fields to update. Provide --data or individual options.', 'validation'), 'Nothing to update');
         }
 
-        const spinner = ora('Updating location...').start();
+        const spinner = startSpinner('Updating location...');
         const location = await apiPut<Location>(`/v1.0/admin/locations/${id}`, data);
         spinner.stop();
 
-        if (options.json) {
-          output(location, { json: true });
+        if (isFormattedOutput(options.json)) {
+          output(location, { json: options.json });
         } else {
           success('Location updated successfully');
         }
       } catch (err) {
-        error(err instanceof Error ? err.message : 'Failed to update location');
-        process.exit(1);
+        fail(err, 'Failed to update location');
       }
     });
 
@@ -205,7 +202,7 @@ export function createLocationsCommands(): Command {
     .argument('<id>', 'Location ID')
     .option('--user-id <userId>', 'User ID (required for deletion)')
     .action(async (id: string, options: { userId?: string }) => {
-      const spinner = ora('Deleting location...').start();
+      const spinner = startSpinner('Deleting location...');
       try {
         const data: Record<string, unknown> = {};
         if (options.userId) data.user_id = options.userId;
@@ -215,8 +212,7 @@ export function createLocationsCommands(): Command {
         success('Location deleted successfully');
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to delete location');
-        process.exit(1);
+        fail(err, 'Failed to delete location');
       }
     });
 
@@ -226,10 +222,10 @@ export function createLocationsCommands(): Command {
     .action(async () => {
       try {
         const response = await apiGet<{ count: number }>('/v1.0/admin/locations/count');
+        recordResult(response);
         console.log(response.count);
       } catch (err) {
-        error(err instanceof Error ? err.message : 'Failed to get count');
-        process.exit(1);
+        fail(err, 'Failed to get count');
       }
     });
 
@@ -1,9 +1,12 @@
 import { Command } from 'commander';
-import ora from 'ora';
 import { apiGet, apiPost, apiDelete } from '../lib/api.js';
 import { getConfig } from '../lib/config.js';
-import { output, success, error, header, detail, outputTable } from '../lib/output.js';
-import type { ApiResponse, GlobalOptions, ListOptions } from '../types/index.js';
+import { cachedApiGet } from '../lib/cache.js';
+import { fetchList } from '../lib/paginate.js';
+import { CliError } from '../lib/errors.js';
+import { output, success, header, detail, outputTable, fail, isFormattedOutput, recordResult } from '../lib/output.js';
+import { startSpinner } from '../lib/interactive.js';
+import type { GlobalOptions, ListOptions } from '../types/index.js';
 
 // ============================================================================
 // Types
@@ -91,6 +94,8 @@ export function createRegistryCommands(): Command {
     .description('List registered devices')
     .option('-l, --limit <number>', 'Results per page', '20')
     .option('-p, --page <number>', 'Page number', '0')
+    .option('--all', 'Fetch every page (streamed as NDJSON with --json)')
+    .option('--max-items <number>', 'Stop after this many results (implies --all)')
     .option('--status <status>', 'Filter by status (PENDING, PAIRED, DECOMMISSIONED)')
     .option('--network <network>', 'Filter by network')
     .option('--device-type <id>', 'Filter by device type ID')
@@ -104,7 +109,7 @@ export function createRegistryCommands(): Command {
       hardwareId?: string;
       filter?: string;
     }) => {
-      const spinner = ora('Fetching registry entries...').start();
+      const spinner = startSpinner('Fetching registry entries...');
       try {
         const params: Record<string, unknown> = {
           limit: parseInt(options.limit as unknown as string, 10),
@@ -127,8 +132,9 @@ export function createRegistryCommands(): Command {
           params.filter = filters.join(',');
         }
 
-        const response = await apiGet<ApiResponse<RegistryEntry>>(getRegistryPath(), params);
+        const response = await fetchList<RegistryEntry>(getRegistryPath(), params, options, spinner);
         spinner.stop();
+        if (!response) return; // streamed as NDJSON
 
         const entries = response.rows || [];
         output(entries, {
@@ -145,8 +151,7 @@ export function createRegistryCommands(): Command {
         });
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch registry entries');
-        process.exit(1);
+        fail(err, 'Failed to fetch registry entries');
       }
     });
 
@@ -159,13 +164,14 @@ export function createRegistryCommands(): Command {
     .argument('<id>', 'Registry entry ID or hardware ID')
     .option('--json', 'Output as JSON')
     .action(async (id: string, options: GlobalOptions) => {
-      const spinner = ora('Fetching registry entry...').start();
+      const spinner = startSpinner('Fetching registry entry...');
       try {
         const entry = await apiGet<RegistryEntry>(`${getRegistryPath()}/${id}`);
         spinner.stop();
 
-        if (options.json) {
-          output(entry, { json: true });
+        recordResult(entry);
+        if (isFormattedOutput(options.json)) {
+          output(entry, { json: options.json });
         } else {
           header(`Registry Entry: ${entry.hardware_id}`);
           detail('ID', entry.id);
@@ -197,8 +203,7 @@ export function createRegistryCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch registry entry');
-        process.exit(1);
+        fail(err, 'Failed to fetch registry entry');
       }
     });
 
@@ -231,8 +236,7 @@ export function createRegistryCommands(): Command {
             const parsed = JSON.parse(options.data);
             data = { ...data, ...parsed };
           } catch {
-            error('Invalid JSON in --data option');
-            process.exit(1);
+            fail(new CliError('Invalid JSON in --data option', 'validation'), 'Invalid JSON');
           }
         }
 
@@ -248,24 +252,21 @@ export function createRegistryCommands(): Command {
 
         // Validate required fields
         if (!data.hardware_id) {
-          error('--hardware-id is required (or provide in --data)');
-          process.exit(1);
+          fail(new CliError('--hardware-id is required (or provide in --data)', 'validation'), 'Missing required option');
         }
         if (!data.device_type_id) {
-          error('--device-type is required (or provide device_type_id in --data)');
-          process.exit(1);
+          fail(new CliError('--device-type is required (or provide device_type_id in --data)', 'validation'), 'Missing required option');
         }
         if (!data.network) {
-          error('--network is required (or provide in --data)');
-          process.exit(1);
+          fail(new CliError('--network is required (or provide in --data)', 'validation'), 'Missing required option');
         }
 
-        const spinner = ora('Registering device...').start();
+        const spinner = startSpinner('Registering device...');
         const entry = await apiPost<RegistryEntry>(getRegistryPath(), data);
         spinner.stop();
 
-        if (options.json) {
-          output(entry, { json: true });
+        if (isFormattedOutput(options.json)) {
+          output(entry, { json: options.json });
         } else {
           success('Device registered successfully');
           detail('ID', entry.id);
@@ -275,8 +276,7 @@ export function createRegistryCommands(): Command {
           detail('Device Type', entry.device_type_id);
         }
       } catch (err) {
-        error(err instanceof Error ? err.message : 'Failed to register device');
-        process.exit(1);
+        fail(err, 'Failed to register device');
       }
     });
 
@@ -289,13 +289,13 @@ export function createRegistryCommands(): Command {
     .argument('<hardware-id>', 'Device hardware ID')
     .option('--json', 'Output as JSON')
     .action(async (hardwareId: string, options: GlobalOptions) => {
-      const spinner = ora('Unpairing device...').start();
+      const spinner = startSpinner('Unpairing device...');
       try {
         await apiDelete(getUnpairPath(hardwareId));
         spinner.stop();
 
-        if (options.json) {
-          output({ success: true, hardware_id: hardwareId, status: 'PENDING' }, { json: true });
+        if (isFormattedOutput(options.json)) {
+          output({ success: true, hardware_id: hardwareId, status: 'PENDING' }, { json: options.json });
         } else {
           success('Device unpaired successfully');
           detail('Hardware ID', hardwareId);
@@ -303,8 +303,7 @@ export function createRegistryCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to unpair device');
-        process.exit(1);
+        fail(err, 'Failed to unpair device');
       }
     });
 
@@ -316,9 +315,9 @@ export function createRegistryCommands(): Command {
     .description('List available networks for device registration')
     .option('--json', 'Output as JSON')
     .action(async (options: GlobalOptions) => {
-      const spinner = ora('Fetching networks...').start();
+      const spinner = startSpinner('Fetching networks...');
       try {
-        const networks = await apiGet<Network[]>(getNetworksPath());
+        const networks = await cachedApiGet<Network[]>('networks', getNetworksPath());
         spinner.stop();
 
         output(networks, {
@@ -333,8 +332,7 @@ export function createRegistryCommands(): Command {
         });
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch networks');
-        process.exit(1);
+        fail(err, 'Failed to fetch networks');
       }
     });
 
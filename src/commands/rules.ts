@@ -1,8 +1,9 @@
 import { Command } from 'commander';
-import ora from 'ora';
 import { apiGet } from '../lib/api.js';
-import { output, error } from '../lib/output.js';
-import type { Rule, ApiResponse, ListOptions } from '../types/index.js';
+import { fetchList } from '../lib/paginate.js';
+import { output, fail, recordResult } from '../lib/output.js';
+import { startSpinner } from '../lib/interactive.js';
+import type { Rule, ListOptions } from '../types/index.js';
 
 export function createRulesCommands(): Command {
   const rules = new Command('rules').description('Manage rules and alerts');
@@ -12,10 +13,12 @@ export function createRulesCommands(): Command {
     .description('List all rules')
     .option('-l, --limit <number>', 'Results per page', '20')
     .option('-p, --page <number>', 'Page number', '0')
+    .option('--all', 'Fetch every page (streamed as NDJSON with --json)')
+    .option('--max-items <number>', 'Stop after this many results (implies --all)')
     .option('--status <status>', 'Filter by status')
     .option('--json', 'Output as JSON')
     .action(async (options: ListOptions & { status?: string }) => {
-      const spinner = ora('Fetching rules...').start();
+      const spinner = startSpinner('Fetching rules...');
       try {
         const params: Record<string, unknown> = {
           limit: parseInt(options.limit as unknown as string, 10),
@@ -23,8 +26,9 @@ export function createRulesCommands(): Command {
         };
         if (options.status) params.status = options.status;
 
-        const response = await apiGet<ApiResponse<Rule>>('/v1.0/admin/rules', params);
+        const response = await fetchList<Rule>('/v1.0/admin/rules', params, options, spinner);
         spinner.stop();
+        if (!response) return; // streamed as NDJSON
 
         const rules = response.rows || [];
         output(rules, {
@@ -35,8 +39,7 @@ export function createRulesCommands(): Command {
         });
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch rules');
-        process.exit(1);
+        fail(err, 'Failed to fetch rules');
       }
     });
 
@@ -46,10 +49,10 @@ export function createRulesCommands(): Command {
     .action(async () => {
       try {
         const response = await apiGet<{ count: number; application_id?: string }>('/v1.0/admin/rules/count');
+        recordResult(response);
         console.log(response.count);
       } catch (err) {
-        error(err instanceof Error ? err.message : 'Failed to get count');
-        process.exit(1);
+        fail(err, 'Failed to get count');
       }
     });
 
@@ -1,9 +1,13 @@
 import { Command } from 'commander';
-import ora from 'ora';
 import { readFileSync, existsSync, writeFileSync } from 'fs';
 import { apiGet, apiPost, apiPut, apiDelete } from '../lib/api.js';
+import { cachedApiGet, invalidateCache } from '../lib/cache.js';
 import { getConfig } from '../lib/config.js';
-import { output, success, error, header, detail, outputTable } from '../lib/output.js';
+import { getTemplatesPath } from '../lib/paths.js';
+import { fetchList } from '../lib/paginate.js';
+import { CliError } from '../lib/errors.js';
+import { output, success, error, header, detail, outputTable, fail, isFormattedOutput, recordResult } from '../lib/output.js';
+import { startSpinner } from '../lib/interactive.js';
 import type {
   DeviceTemplate,
   TemplateMeta,
@@ -16,14 +20,6 @@ import type {
   ChannelRuleTemplate,
 } from '../types/index.js';
 
-/**
- * Get the base path for templates API
- */
-function getTemplatesPath(): string {
-  const clientId = getConfig('clientId');
-  return `/v1.1/organizations/${clientId}/applications/${clientId}/things/types`;
-}
-
 /**
  * Get a meta value from the template meta array
  */
@@ -164,6 +160,8 @@ export function createTemplatesCommands(): Command {
     .description('List device templates')
     .option('-l, --limit <number>', 'Results per page', '20')
     .option('-p, --page <number>', 'Page number', '0')
+    .option('--all', 'Fetch every page (streamed as NDJSON with --json)')
+    .option('--max-items <number>', 'Stop after this many results (implies --all)')
     .option('--sort <sort>', 'Sort order (e.g., "name asc")', 'name asc')
     .option('--catalog <catalog>', 'Catalog filter (application, public)', 'application')
     .option('--manufacturer <name>', 'Filter by manufacturer')
@@ -181,7 +179,7 @@ export function createTemplatesCommands(): Command {
       search?: string;
       filter?: string;
     }) => {
-      const spinner = ora('Fetching templates...').start();
+      const spinner = startSpinner('Fetching templates...');
       try {
         const params: Record<string, unknown> = {
           limit: parseInt(options.limit as unknown as string, 10),
@@ -199,8 +197,9 @@ export function createTemplatesCommands(): Command {
           params.filter = options.filter;
         }
 
-        const response = await apiGet<ApiResponse<DeviceTemplate>>(getTemplatesPath(), params);
+        const response = await fetchList<DeviceTemplate>(getTemplatesPath(), params, options, spinner);
         spinner.stop();
+        if (!response) return; // streamed as NDJSON
 
         const templateList = response.rows || [];
         output(templateList, {
@@ -217,8 +216,7 @@ export function createTemplatesCommands(): Command {
         });
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch templates');
-        process.exit(1);
+        fail(err, 'Failed to fetch templates');
       }
     });
 
@@ -233,13 +231,14 @@ export function createTemplatesCommands(): Command {
     .option('--show-capabilities', 'Show capability details')
     .option('--show-meta', 'Show all metadata')
     .action(async (id: string, options: GlobalOptions & { showCapabilities?: boolean; showMeta?: boolean }) => {
-      const spinner = ora('Fetching template...').start();
+      const spinner = startSpinner('Fetching template...');
       try {
         const template = await apiGet<DeviceTemplate>(`${getTemplatesPath()}/${id}`);
         spinner.stop();
 
-        if (options.json) {
-          output(template, { json: true });
+        recordResult(template);
+        if (isFormattedOutput(options.json)) {
+          output(template, { json: options.json });
         } else {
           header(`Template: ${template.name}`);
           detail('ID', template.id);
@@ -307,8 +306,7 @@ export function createTemplatesCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch template');
-        process.exit(1);
+        fail(err, 'Failed to fetch template');
       }
     });
 
@@ -337,7 +335,7 @@ export function createTemplatesCommands(): Command {
     .option('--from-file <file>', 'Create template from JSON file (overrides other options)')
     .option('--json', 'Output as JSON')
     .action(async (options) => {
-      const spinner = ora('Creating template...').start();
+      const spinner = startSpinner('Creating template...');
       try {
         let data: Record<string, unknown>;
 
@@ -377,8 +375,8 @@ export function createTemplatesCommands(): Command {
         const template = await apiPost<DeviceTemplate>(getTemplatesPath(), data);
         spinner.stop();
 
-        if (options.json) {
-          output(template, { json: true });
+        if (isFormattedOutput(options.json)) {
+          output(template, { json: options.json });
         } else {
           success('Template created successfully');
           detail('ID', template.id);
@@ -389,8 +387,7 @@ export function createTemplatesCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to create template');
-        process.exit(1);
+        fail(err, 'Failed to create template');
       }
     });
 
@@ -416,7 +413,7 @@ export function createTemplatesCommands(): Command {
     .option('--from-file <file>', 'Update template from JSON file')
     .option('--json', 'Output as JSON')
     .action(async (id: string, options) => {
-      const spinner = ora('Updating template...').start();
+      const spinner = startSpinner('Updating template...');
       try {
         let data: Record<string, unknown>;
 
@@ -448,17 +445,17 @@ export function createTemplatesCommands(): Command {
         }
 
         const template = await apiPut<DeviceTemplate>(`${getTemplatesPath()}/${id}`, data);
+        invalidateCache('templates');
         spinner.stop();
 
-        if (options.json) {
-          output(template, { json: true });
+        if (isFormattedOutput(options.json)) {
+          output(template, { json: options.json });
         } else {
           success('Template updated successfully');
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to update template');
-        process.exit(1);
+        fail(err, 'Failed to update template');
       }
     });
 
@@ -470,15 +467,15 @@ export function createTemplatesCommands(): Command {
     .description('Delete a device template')
     .argument('<id>', 'Template ID')
     .action(async (id: string) => {
-      const spinner = ora('Deleting template...').start();
+      const spinner = startSpinner('Deleting template...');
       try {
         await apiDelete(`${getTemplatesPath()}/${id}`);
+        invalidateCache('templates');
         spinner.stop();
         success('Template deleted successfully');
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to delete template');
-        process.exit(1);
+        fail(err, 'Failed to delete template');
       }
     });
 
@@ -492,7 +489,7 @@ export function createTemplatesCommands(): Command {
     .argument('<codec-id>', 'Codec ID (e.g., lorawan.acme.sensor)')
     .option('--json', 'Output as JSON')
     .action(async (templateId: string, codecId: string, options: GlobalOptions) => {
-      const spinner = ora('Fetching template...').start();
+      const spinner = startSpinner('Fetching template...');
       try {
         // First, get the current template
         const template = await apiGet<DeviceTemplate>(`${getTemplatesPath()}/${templateId}`);
@@ -509,10 +506,11 @@ export function createTemplatesCommands(): Command {
           `${getTemplatesPath()}/${templateId}`,
           updatedTemplate
         );
+        invalidateCache('templates');
         spinner.stop();
 
-        if (options.json) {
-          output(result, { json: true });
+        if (isFormattedOutput(options.json)) {
+          output(result, { json: options.json });
         } else {
           success('Codec assigned successfully');
           detail('Template', result.name);
@@ -521,8 +519,7 @@ export function createTemplatesCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to assign codec');
-        process.exit(1);
+        fail(err, 'Failed to assign codec');
       }
     });
 
@@ -535,15 +532,14 @@ export function createTemplatesCommands(): Command {
     .argument('<template-id>', 'Template ID')
     .option('-o, --output <file>', 'Output file path (default: stdout)')
     .action(async (templateId: string, options: { output?: string }) => {
-      const spinner = ora('Fetching template...').start();
+      const spinner = startSpinner('Fetching template...');
       try {
         // Fetch the template with channels
         const template = await apiGet<DeviceTemplate>(`${getTemplatesPath()}/${templateId}`);
 
         if (!template.channels || template.channels.length === 0) {
           spinner.stop();
-          error('Template has no capabilities. Add capabilities first.');
-          process.exit(1);
+          fail(new CliError('Template has no capabilities. Add capabilities first.', 'validation'), 'Template has no capabilities');
         }
 
         spinner.text = 'Fetching datatype information...';
@@ -564,7 +560,7 @@ export function createTemplatesCommands(): Command {
 
           if (datatypeId) {
             // Get datatype to find the payload (type)
-            const datatypes = await apiGet<ApiResponse<Datatype>>('/v1.0/things/datatypes', {
+            const datatypes = await cachedApiGet<ApiResponse<Datatype>>('datatypes', '/v1.0/things/datatypes', {
               limit: 100,
               page: 0,
             });
@@ -602,8 +598,7 @@ export function createTemplatesCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to generate decoder skeleton');
-        process.exit(1);
+        fail(err, 'Failed to generate decoder skeleton');
       }
     });
 
@@ -620,14 +615,14 @@ export function createTemplatesCommands(): Command {
     .option('--search <term>', 'Search by name')
     .option('--json', 'Output as JSON')
     .action(async (options: ListOptions & { search?: string }) => {
-      const spinner = ora('Fetching datatypes...').start();
+      const spinner = startSpinner('Fetching datatypes...');
       try {
         const params: Record<string, unknown> = {
           limit: parseInt(options.limit as unknown as string, 10),
           page: parseInt(options.page as unknown as string, 10),
         };
 
-        const response = await apiGet<ApiResponse<Datatype>>('/v1.0/things/datatypes', params);
+        const response = await cachedApiGet<ApiResponse<Datatype>>('datatypes', '/v1.0/things/datatypes', params);
         spinner.stop();
 
         let datatypeList = response.rows || [];
@@ -650,8 +645,7 @@ export function createTemplatesCommands(): Command {
         });
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch datatypes');
-        process.exit(1);
+        fail(err, 'Failed to fetch datatypes');
       }
     });
 
@@ -661,9 +655,10 @@ export function createTemplatesCommands(): Command {
     .argument('<id>', 'Datatype ID')
     .option('--json', 'Output as JSON')
     .action(async (id: string, options: GlobalOptions) => {
-      const spinner = ora('Fetching datatype properties...').start();
+      const spinner = startSpinner('Fetching datatype properties...');
       try {
-        const properties = await apiGet<ApiResponse<DatatypeProperty>>(
+        const properties = await cachedApiGet<ApiResponse<DatatypeProperty>>(
+          'datatypes',
           `/v1.0/things/datatypes/${id}/properties`,
           { limit: 100, page: 0 }
         );
@@ -671,8 +666,9 @@ export function createTemplatesCommands(): Command {
 
         const props = properties.rows || [];
 
-        if (options.json) {
-          output(props, { json: true });
+        recordResult(props);
+        if (isFormattedOutput(options.json)) {
+          output(props, { json: options.json });
         } else {
           // Group by type
           const icons = props.filter((p) => p.type === 'icon');
@@ -717,8 +713,7 @@ export function createTemplatesCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch datatype properties');
-        process.exit(1);
+        fail(err, 'Failed to fetch datatype properties');
       }
     });
 
@@ -737,7 +732,7 @@ export function createTemplatesCommands(): Command {
     .option('-p, --page <number>', 'Page number', '0')
     .option('--json', 'Output as JSON')
     .action(async (templateId: string, options: ListOptions) => {
-      const spinner = ora('Fetching capabilities...').start();
+      const spinner = startSpinner('Fetching capabilities...');
       try {
         const params: Record<string, unknown> = {
           limit: parseInt(options.limit as unknown as string, 10),
@@ -766,8 +761,7 @@ export function createTemplatesCommands(): Command {
         });
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch capabilities');
-        process.exit(1);
+        fail(err, 'Failed to fetch capabilities');
       }
     });
 
@@ -784,7 +778,7 @@ export function createTemplatesCommands(): Command {
     .option('--from-file <file>', 'Create from JSON file (overrides other options)')
     .option('--json', 'Output as JSON')
     .action(async (templateId: string, options) => {
-      const spinner = ora('Creating capability...').start();
+      const spinner = startSpinner('Creating capability...');
       try {
         let data: Record<string, unknown>;
 
@@ -797,7 +791,8 @@ export function createTemplatesCommands(): Command {
           const datatypeId = parseInt(options.datatypeId, 10);
 
           // Fetch datatype properties to auto-populate icon, units, rule_templates
-          const propsResponse = await apiGet<ApiResponse<DatatypeProperty>>(
+          const propsResponse = await cachedApiGet<ApiResponse<DatatypeProperty>>(
+            'datatypes',
             `/v1.0/things/datatypes/${datatypeId}/properties`,
             { limit: 100, page: 0 }
           );
@@ -862,10 +857,11 @@ export function createTemplatesCommands(): Command {
           `${getTemplatesPath()}/${templateId}/channels`,
           data
         );
+        invalidateCache('templates');
         spinner.stop();
 
-        if (options.json) {
-          output(capability, { json: true });
+        if (isFormattedOutput(options.json)) {
+          output(capability, { json: options.json });
         } else {
           success('Capability created successfully');
           detail('ID', capability.id);
@@ -875,8 +871,7 @@ export function createTemplatesCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to create capability');
-        process.exit(1);
+        fail(err, 'Failed to create capability');
       }
     });
 
@@ -890,7 +885,7 @@ export function createTemplatesCommands(): Command {
     .option('--from-file <file>', 'Update from JSON file')
     .option('--json', 'Output as JSON')
     .action(async (templateId: string, capabilityId: string, options) => {
-      const spinner = ora('Updating capability...').start();
+      const spinner = startSpinner('Updating capability...');
       try {
         let data: Record<string, unknown>;
 
@@ -909,17 +904,17 @@ export function createTemplatesCommands(): Command {
           `${getTemplatesPath()}/${templateId}/channels/${capabilityId}`,
           data
         );
+        invalidateCache('templates');
         spinner.stop();
 
-        if (options.json) {
-          output(capability, { json: true });
+        if (isFormattedOutput(options.json)) {
+          output(capability, { json: options.json });
         } else {
           success('Capability updated successfully');
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to update capability');
-        process.exit(1);
+        fail(err, 'Failed to update capability');
       }
     });
 
@@ -929,15 +924,15 @@ export function createTemplatesCommands(): Command {
     .argument('<template-id>', 'Template ID')
     .argument('<capability-id>', 'Capability ID')
     .action(async (templateId: string, capabilityId: string) => {
-      const spinner = ora('Deleting capability...').start();
+      const spinner = startSpinner('Deleting capability...');
       try {
         await apiDelete(`${getTemplatesPath()}/${templateId}/channels/${capabilityId}`);
+        invalidateCache('templates');
         spinner.stop();
         success('Capability deleted successfully');
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to delete capability');
-        process.exit(1);
+        fail(err, 'Failed to delete capability');
       }
     });
 
@@ -952,7 +947,7 @@ export function createTemplatesCommands(): Command {
     .argument('<template-id>', 'Template ID to export')
     .option('-o, --output <file>', 'Output file path (default: stdout)')
     .action(async (templateId: string, options: { output?: string }) => {
-      const spinner = ora('Fetching template...').start();
+      const spinner = startSpinner('Fetching template...');
       try {
         // Fetch the template
         const template = await apiGet<DeviceTemplate>(`${getTemplatesPath()}/${templateId}`);
@@ -1028,8 +1023,7 @@ export function createTemplatesCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to export template');
-        process.exit(1);
+        fail(err, 'Failed to export template');
       }
     });
 
@@ -1045,8 +1039,7 @@ export function createTemplatesCommands(): Command {
     .action(async (file: string, options: { dryRun?: boolean; json?: boolean }) => {
       // Validate file exists
       if (!existsSync(file)) {
-        error(`File not found: ${file}`);
-        process.exit(1);
+        fail(new CliError(`File not found: ${file}`, 'validation'), 'File not found');
       }
 
       // Parse and validate file
@@ -1054,22 +1047,18 @@ export function createTemplatesCommands(): Command {
       try {
         exportData = JSON.parse(readFileSync(file, 'utf-8'));
       } catch (err) {
-        error(`Invalid JSON file: ${err instanceof Error ? err.message : 'Parse error'}`);
-        process.exit(1);
+        fail(new CliError(`Invalid JSON file: ${err instanceof Error ? err.message : 'Parse error'}`, 'validation'), 'Invalid JSON');
       }
 
       // Validate required fields
       if (!exportData.version) {
-        error('Invalid export file: missing version field');
-        process.exit(1);
+        fail(new CliError('Invalid export file: missing version field', 'validation'), 'Invalid export file');
       }
       if (!exportData.template) {
-        error('Invalid export file: missing template field');
-        process.exit(1);
+        fail(new CliError('Invalid export file: missing template field', 'validation'), 'Invalid export file');
       }
       if (!exportData.template.name) {
-        error('Invalid export file: missing template name');
-        process.exit(1);
+        fail(new CliError('Invalid export file: missing template name', 'validation'), 'Invalid export file');
       }
 
       // Dry run - show what would be created
@@ -1084,7 +1073,7 @@ export function createTemplatesCommands(): Command {
         return;
       }
 
-      const spinner = ora('Creating template...').start();
+      const spinner = startSpinner('Creating template...');
       try {
         // Build template data with meta
         const templateData: Record<string, unknown> = {
@@ -1115,7 +1104,7 @@ export function createTemplatesCommands(): Command {
 
         spinner.stop();
 
-        if (options.json) {
+        if (isFormattedOutput(options.json)) {
           output({
             success: true,
             templateId: newTemplate.id,
@@ -1123,7 +1112,7 @@ export function createTemplatesCommands(): Command {
             capabilitiesCreated: capabilitiesCreated.length,
             deviceUsesCreated: exportData.deviceUses?.length || 0,
             attributesCreated: exportData.attributes?.length || 0,
-          }, { json: true });
+          }, { json: options.json });
         } else {
           success(`Template created: "${newTemplate.name}" (id: ${newTemplate.id})`);
           detail('Capabilities created', String(capabilitiesCreated.length));
@@ -1133,8 +1122,7 @@ export function createTemplatesCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to import template');
-        process.exit(1);
+        fail(err, 'Failed to import template');
       }
     });
 
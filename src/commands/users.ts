@@ -1,8 +1,10 @@
 import { Command } from 'commander';
-import ora from 'ora';
 import { apiGet, apiPost, apiPut, apiDelete } from '../lib/api.js';
-import { output, success, error, header, detail } from '../lib/output.js';
-import type { User, ApiResponse, GlobalOptions, ListOptions } from '../types/index.js';
+import { fetchList } from '../lib/paginate.js';
+import { CliError } from '../lib/errors.js';
+import { output, success, header, detail, fail, isFormattedOutput, recordResult } from '../lib/output.js';
+import { startSpinner } from '../lib/interactive.js';
+import type { User, GlobalOptions, ListOptions } from '../types/index.js';
 
 export function createUsersCommands(): Command {
   const users = new Command('users').description('Manage users');
@@ -12,12 +14,14 @@ export function createUsersCommands(): Command {
     .description('List all users')
     .option('-l, --limit <number>', 'Results per page', '20')
     .option('-p, --page <number>', 'Page number', '0')
+    .option('--all', 'Fetch every page (streamed as NDJSON with --json)')
+    .option('--max-items <number>', 'Stop after this many results (implies --all)')
     .option('--email <email>', 'Filter by email')
     .option('--first-name <name>', 'Filter by first name')
     .option('--last-name <name>', 'Filter by last name')
     .option('--json', 'Output as JSON')
     .action(async (options: ListOptions & { email?: string; firstName?: string; lastName?: string }) => {
-      const spinner = ora('Fetching users...').start();
+      const spinner = startSpinner('Fetching users...');
       try {
         const params: Record<string, unknown> = {
           limit: parseInt(options.limit as unknown as string, 10),
@@ -27,10 +31,11 @@ export function createUsersCommands(): Command {
         if (options.firstName) params.firstName = options.firstName;
         if (options.lastName) params.lastName = options.lastName;
 
-        const response = await apiGet<ApiResponse<User> | User[]>('/v1.0/admin/users', params);
+        const response = await fetchList<User>('/v1.0/admin/users', params, options, spinner);
         spinner.stop();
+        if (!response) return; // streamed as NDJSON
 
-        const users = Array.isArray(response) ? response : response.rows || [];
+        const users = response.rows || [];
         output(users, {
           json: options.json,
           tableHeaders: ['ID', 'Email', 'Name', 'Enabled'],
@@ -40,12 +45,11 @@ export function createUsersCommands(): Command {
             [u.firstName, u.lastName].filter(Boolean).join(' ') || '-',
             u.enabled,
           ],
-          footer: `Total: ${Array.isArray(response) ? users.length : response.count || users.length} users`,
+          footer: `Total: ${response.count || users.length} users`,
         });
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch users');
-        process.exit(1);
+        fail(err, 'Failed to fetch users');
       }
     });
 
@@ -55,13 +59,14 @@ export function createUsersCommands(): Command {
     .argument('<id>', 'User ID')
     .option('--json', 'Output as JSON')
     .action(async (id: string, options: GlobalOptions) => {
-      const spinner = ora('Fetching user...').start();
+      const spinner = startSpinner('Fetching user...');
       try {
         const user = await apiGet<User>(`/v1.0/admin/users/${id}`);
         spinner.stop();
 
-        if (options.json) {
-          output(user, { json: true });
+        recordResult(user);
+        if (isFormattedOutput(options.json)) {
+          output(user, { json: options.json });
         } else {
           header(`User: ${user.email}`);
           detail('ID', user.id);
@@ -79,8 +84,7 @@ export function createUsersCommands(): Command {
         }
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to fetch user');
-        process.exit(1);
+        fail(err, 'Failed to fetch user');
       }
     });
 
@@ -104,8 +108,7 @@ export function createUsersCommands(): Command {
           try {
             data = JSON.parse(options.data);
           } catch {
-            error('Invalid JSON in --data option');
-            process.exit(1);
+            fail(new CliError('Invalid JSON in --data option', 'validation'), 'Invalid JSON');
           }
         }
 
@@ -119,17 +122,16 @@ export function createUsersCommands(): Command {
 
         // Validate required fields
         if (!data.email) {
-          error('--email is required (or provide in --data)');
-          process.exit(1);
+          fail(new CliError('--email is required (or provide in --data)', 'validation'), 'Missing required option');
         }
 
-        const spinner = ora('Creating user...').start();
+        const spinner = startSpinner('Creating user...');
         const queryString = options.notify ? '?notify=true' : '';
         const user = await apiPost<User>(`/v1.0/admin/users${queryString}`, data);
         spinner.stop();
 
-        if (options.json) {
-          output(user, { json: true });
+        if (isFormattedOutput(options.json)) {
+          output(user, { json: options.json });
         } else {
           success('User created successfully');
           detail('ID', user.id);
@@ -138,8 +140,7 @@ export function createUsersCommands(): Command {
           }
         }
       } catch (err) {
-        error(err instanceof Error ? err.message : 'Failed to create user');
-        process.exit(1);
+        fail(err, 'Failed to create user');
       }
     });
 
@@ -161,8 +162,7 @@ export function createUsersCommands(): Command {
           try {
             data = JSON.parse(options.data);
           } catch {
-            error('Invalid JSON in --data option');
-            process.exit(1);
+            fail(new CliError('Invalid JSON in --data option', 'validation'), 'Invalid JSON');
           }
         }
 
@@ -173,22 +173,20 @@ export function createUsersCommands(): Command {
         if (options.locale) data.locale = options.locale;
 
         if (Object.keys(data).length === 0) {
-          error('No fields to update. Provide --data or individual options.');
-          process.exit(1);
+          fail(new CliError('No fields to update. Provide --data or individual options.', 'validation'), 'Nothing to update');
         }
 
-        const spinner = ora('Updating user...').start();
+        const spinner = startSpinner('Updating user...');
         const user = await apiPut<User>(`/v1.0/admin/users/${id}`, data);
         spinner.stop();
 
-        if (options.json) {
-          output(user, { json: true });
+        if (isFormattedOutput(options.json)) {
+          output(user, { json: options.json });
         } else {
           success('User updated successfully');
         }
       } catch (err) {
-        error(err instanceof Error ? err.message : 'Failed to update user');
-        process.exit(1);
+        fail(err, 'Failed to update user');
       }
     });
 
@@ -197,15 +195,14 @@ export function createUsersCommands(): Command {
     .description('Delete a user')
     .argument('<id>', 'User ID')
     .action(async (id: string) => {
-      const spinner = ora('Deleting user...').start();
+      const spinner = startSpinner('Deleting user...');
       try {
         await apiDelete(`/v1.0/admin/users/${id}`);
         spinner.stop();
         success('User deleted successfully');
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to delete user');
-        process.exit(1);
+        fail(err, 'Failed to delete user');
       }
     });
 
@@ -215,10 +212,10 @@ export function createUsersCommands(): Command {
     .action(async () => {
       try {
         const response = await apiGet<{ count: number }>('/v1.0/admin/users/count');
+        recordResult(response);
         console.log(response.count);
       } catch (err) {
-        error(err instanceof Error ? err.message : 'Failed to get count');
-        process.exit(1);
+        fail(err, 'Failed to get count');
       }
     });
 
@@ -232,7 +229,7 @@ export function createUsersCommands(): Command {
     .requiredOption('--location-id <id>', 'Location ID')
     .requiredOption('--permission <level>', 'Permission level (view or edit)')
     .action(async (userId: string, options: { locationId: string; permission: string }) => {
-      const spinner = ora('Setting permissions...').start();
+      const spinner = startSpinner('Setting permissions...');
       try {
         const data = [
           {
@@ -249,8 +246,7 @@ export function createUsersCommands(): Command {
         detail('Permission', options.permission);
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to set permissions');
-        process.exit(1);
+        fail(err, 'Failed to set permissions');
       }
     });
 
@@ -260,7 +256,7 @@ export function createUsersCommands(): Command {
     .argument('<user-id>', 'User ID')
     .requiredOption('--location-id <id>', 'Location ID')
     .action(async (userId: string, options: { locationId: string }) => {
-      const spinner = ora('Removing permissions...').start();
+      const spinner = startSpinner('Removing permissions...');
       try {
         const data = [{ location_id: options.locationId }];
 
@@ -269,8 +265,7 @@ export function createUsersCommands(): Command {
         success('Permission removed');
       } catch (err) {
         spinner.stop();
-        error(err instanceof Error ? err.message : 'Failed to remove permissions');
-        process.exit(1);
+        fail(err, 'Failed to remove permissions');
       }
     });
 
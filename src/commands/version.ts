@@ -1,7 +1,9 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import ora from 'ora';
 import { getCurrentVersion } from '../lib/version.js';
+import { httpGet } from '../lib/http.js';
+import { output, isFormattedOutput } from '../lib/output.js';
+import { startSpinner } from '../lib/interactive.js';
 
 const GITHUB_REPO = 'myDevicesIoT/mydevices-cli';
 
@@ -19,7 +21,7 @@ interface GitHubRelease {
  */
 async function getLatestRelease(): Promise<GitHubRelease | null> {
   try {
-    const response = await fetch(
+    return await httpGet<GitHubRelease>(
       `https://api.github.com/repos/${GITHUB_REPO}/releases/latest`,
       {
         headers: {
@@ -28,16 +30,8 @@ async function getLatestRelease(): Promise<GitHubRelease | null> {
         },
       }
     );
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        return null; // No releases yet
-      }
-      throw new Error(`GitHub API error: ${response.status}`);
-    }
-
-    return await response.json() as GitHubRelease;
   } catch {
+    // No releases yet (404), or GitHub is unreachable
     return null;
   }
 }
@@ -80,8 +74,8 @@ export function createVersionCommands(): Command {
 
       if (!options.check) {
         // Just show current version
-        if (options.json) {
-          console.log(JSON.stringify({ version: currentVersion }, null, 2));
+        if (isFormattedOutput(options.json)) {
+          output({ version: currentVersion }, { json: options.json });
         } else {
           console.log(`mydevices-cli v${currentVersion}`);
         }
@@ -89,25 +83,22 @@ export function createVersionCommands(): Command {
       }
 
       // Check for updates
-      const spinner = ora('Checking for updates...').start();
+      const spinner = startSpinner('Checking for updates...');
 
       try {
         const release = await getLatestRelease();
         spinner.stop();
 
         if (!release) {
-          if (options.json) {
-            console.log(
-              JSON.stringify(
-                {
-                  current: currentVersion,
-                  latest: null,
-                  updateAvailable: false,
-                  message: 'No releases found',
-                },
-                null,
-                2
-              )
+          if (isFormattedOutput(options.json)) {
+            output(
+              {
+                current: currentVersion,
+                latest: null,
+                updateAvailable: false,
+                message: 'No releases found',
+              },
+              { json: options.json }
             );
           } else {
             console.log(`Current version: ${chalk.cyan(`v${currentVersion}`)}`);
@@ -120,19 +111,16 @@ export function createVersionCommands(): Command {
         const comparison = compareVersions(currentVersion, latestVersion);
         const updateAvailable = comparison < 0;
 
-        if (options.json) {
-          console.log(
-            JSON.stringify(
-              {
-                current: currentVersion,
-                latest: latestVersion,
-                updateAvailable,
-                releaseUrl: release.html_url,
-                publishedAt: release.published_at,
-              },
-              null,
-              2
-            )
+        if (isFormattedOutput(options.json)) {
+          output(
+            {
+              current: currentVersion,
+              latest: latestVersion,
+              updateAvailable,
+              releaseUrl: release.html_url,
+              publishedAt: release.published_at,
+            },
+            { json: options.json }
           );
         } else {
           console.log(`Current version: ${chalk.cyan(`v${currentVersion}`)}`);
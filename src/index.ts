@@ -15,7 +15,10 @@ import { createCompletionCommands } from './commands/completion.js';
 import { createDescribeCommands } from './commands/describe.js';
 import { createVersionCommands } from './commands/version.js';
 import { createBulkCommands } from './commands/bulk.js';
+import { createCacheCommands } from './commands/cache.js';
 import { getCurrentVersion } from './lib/version.js';
+import { registerGlobalOptions } from './lib/global-options.js';
+import { registerWatch } from './lib/watch.js';
 
 const program = new Command();
 
@@ -40,6 +43,13 @@ program.addCommand(createCompletionCommands());
 program.addCommand(createDescribeCommands());
 program.addCommand(createVersionCommands());
 program.addCommand(createBulkCommands());
+program.addCommand(createCacheCommands());
+
+// Global options (--profile, --retries, ...) on every command
+registerGlobalOptions(program);
+
+// --watch on list and get commands
+registerWatch(program);
 
 // Parse and execute
 program.parse();
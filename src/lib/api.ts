@@ -1,77 +1,114 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
-import { getConfig } from './config.js';
+import { AxiosInstance, AxiosError } from 'axios';
+import { getConfig, getActiveProfile } from './config.js';
 import { getValidToken } from './auth.js';
+import { getRetryPolicy, getRetryDelay, parseRetryAfter, notifyRateLimited, sleep } from './retry.js';
+import { toApiError } from './errors.js';
+import { getCassetteAdapter, isReplayMode } from './cassette.js';
+import { createHttpClient } from './http.js';
+import { redactBody } from './redact.js';
 import chalk from 'chalk';
 
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Allow retrying a non-idempotent request (POST/PATCH) on transient failures */
+    retry?: boolean;
+    /** Number of retries already made for this request */
+    retryCount?: number;
+  }
+}
+
+/**
+ * Per-request options for the generic API helpers
+ */
+export interface RequestOptions {
+  retry?: boolean;
+}
+
 const isDebug = process.env.DEBUG === '1' || process.env.MYDEVICES_DEBUG === '1';
 
 let apiClient: AxiosInstance | null = null;
+let apiClientProfile: string | null = null;
 
 export function getApiClient(): AxiosInstance {
+  // The base URL and tokens belong to a profile, so rebuild on profile change
+  if (apiClientProfile !== getActiveProfile()) {
+    apiClient = null;
+  }
+
   if (!apiClient) {
-    apiClient = axios.create({
+    apiClientProfile = getActiveProfile();
+    // Proxy, CA, TLS, timeout and --trace settings come from the shared client
+    const client = createHttpClient({
       baseURL: getConfig('apiUrl'),
       headers: {
         'Content-Type': 'application/json',
       },
+      // Record/replay cassettes (--record/--replay)
+      adapter: getCassetteAdapter(),
     });
+    apiClient = client;
 
-    // Request interceptor to add auth token and debug logging
-    apiClient.interceptors.request.use(async (config) => {
-      const token = await getValidToken();
-      config.headers.Authorization = `Bearer ${token}`;
+    // Request interceptor to add auth token and debug logging (stderr, redacted)
+    client.interceptors.request.use(async (config) => {
+      // Replayed responses need no credentials
+      if (!isReplayMode()) {
+        const token = await getValidToken();
+        config.headers.Authorization = `Bearer ${token}`;
+      }
 
       if (isDebug) {
-        console.log(chalk.cyan('\n[DEBUG] Request:'));
-        console.log(chalk.gray(`  ${config.method?.toUpperCase()} ${config.baseURL}${config.url}`));
+        console.error(chalk.cyan('\n[DEBUG] Request:'));
+        console.error(chalk.gray(`  ${config.method?.toUpperCase()} ${config.baseURL}${config.url}`));
         if (config.params) {
-          console.log(chalk.gray(`  Params: ${JSON.stringify(config.params)}`));
+          console.error(chalk.gray(`  Params: ${JSON.stringify(redactBody(config.params))}`));
         }
         if (config.data) {
-          console.log(chalk.gray(`  Body: ${JSON.stringify(config.data, null, 2)}`));
+          console.error(chalk.gray(`  Body: ${JSON.stringify(redactBody(config.data), null, 2)}`));
         }
       }
 
       return config;
     });
 
-    // Response interceptor for error handling and debug logging
-    apiClient.interceptors.response.use(
+    // Response interceptor for retries, error handling and debug logging
+    client.interceptors.response.use(
       (response) => {
         if (isDebug) {
-          console.log(chalk.green('\n[DEBUG] Response:'));
-          console.log(chalk.gray(`  Status: ${response.status}`));
-          console.log(chalk.gray(`  Data: ${JSON.stringify(response.data, null, 2)}`));
+          console.error(chalk.green('\n[DEBUG] Response:'));
+          console.error(chalk.gray(`  Status: ${response.status}`));
+          console.error(chalk.gray(`  Data: ${JSON.stringify(redactBody(response.data), null, 2)}`));
         }
         return response;
       },
-      (error: AxiosError) => {
+      async (error: AxiosError) => {
         if (isDebug && error.response) {
-          console.log(chalk.red('\n[DEBUG] Error Response:'));
-          console.log(chalk.gray(`  Status: ${error.response.status}`));
-          console.log(chalk.gray(`  Data: ${JSON.stringify(error.response.data, null, 2)}`));
+          console.error(chalk.red('\n[DEBUG] Error Response:'));
+          console.error(chalk.gray(`  Status: ${error.response.status}`));
+          console.error(chalk.gray(`  Data: ${JSON.stringify(redactBody(error.response.data), null, 2)}`));
         }
 
-        if (error.response) {
-          const status = error.response.status;
-          const data = error.response.data as Record<string, unknown>;
-
-          switch (status) {
-            case 401:
-              throw new Error('Authentication failed. Run "mydevices auth login" to re-authenticate.');
-            case 403:
-              throw new Error('Permission denied. You do not have access to this resource.');
-            case 404:
-              throw new Error('Resource not found.');
-            default:
-              throw new Error(
-                (data?.message as string) ||
-                (data?.error as string) ||
-                `API error: ${status}`
-              );
+        // Let bulk operations slow down as soon as the API pushes back
+        if (error.response?.status === 429) {
+          notifyRateLimited(parseRetryAfter(error.response.headers['retry-after']));
+        }
+
+        // Retry transient failures (429, 502/503/504, connection resets)
+        const requestConfig = error.config;
+        if (requestConfig) {
+          const attempt = requestConfig.retryCount || 0;
+          const delay = getRetryDelay(error, attempt, getRetryPolicy(), requestConfig.retry);
+          if (delay !== null) {
+            if (isDebug) {
+              const reason = error.response ? `status ${error.response.status}` : error.code;
+              console.error(chalk.yellow(`\n[DEBUG] Retrying after ${reason} in ${delay}ms (attempt ${attempt + 1})`));
+            }
+            await sleep(delay);
+            requestConfig.retryCount = attempt + 1;
+            return client.request(requestConfig);
           }
         }
-        throw error;
+
+        throw toApiError(error);
       }
     );
   }
@@ -86,9 +123,9 @@ export async function apiGet<T>(path: string, params?: Record<string, unknown>):
   return response.data;
 }
 
-export async function apiPost<T>(path: string, data?: Record<string, unknown>): Promise<T> {
+export async function apiPost<T>(path: string, data?: Record<string, unknown>, options?: RequestOptions): Promise<T> {
   const client = getApiClient();
-  const response = await client.post<T>(path, data);
+  const response = await client.post<T>(path, data, { retry: options?.retry });
   return response.data;
 }
 
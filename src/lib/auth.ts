@@ -1,123 +1,428 @@
 import axios from 'axios';
-import { getConfig, setAuthConfig, getAuthConfig } from './config.js';
-import type { TokenResponse } from '../types/index.js';
+import type { AxiosInstance } from 'axios';
+import { readFileSync } from 'fs';
+import { getConfig, setConfig, getAuthConfig } from './config.js';
+import type { GrantType } from './config.js';
+import { loadAuth, saveAuth, resolveCredentials } from './credentials.js';
+import type { Credentials } from './credentials.js';
+import { ApiError, CliError, toApiError } from './errors.js';
+import { createHttpClient } from './http.js';
+import { decodeJwt, describeToken } from './jwt.js';
+import type { TokenInfo } from './jwt.js';
+import { sleep } from './retry.js';
+import type { AuthConfig, DeviceAuthorization, TokenResponse } from '../types/index.js';
 
-export async function authenticate(
-  realm: string,
-  clientId: string,
-  clientSecret: string
-): Promise<TokenResponse> {
-  const authUrl = getConfig('authUrl');
-  const tokenUrl = `${authUrl}/auth/realms/${realm}/protocol/openid-connect/token`;
+/**
+ * A user account signing in through a (usually public) client
+ */
+export interface UserCredentials extends Credentials {
+  username: string;
+  password: string;
+}
+
+// Tokens this close to expiry are refreshed before use
+const EXPIRY_BUFFER_MS = 60 * 1000;
+
+const DEVICE_CODE_GRANT = 'urn:ietf:params:oauth:grant-type:device_code';
+
+let tokenClient: AxiosInstance | null = null;
+
+function getTokenClient(): AxiosInstance {
+  if (!tokenClient) {
+    tokenClient = createHttpClient();
+  }
+  return tokenClient;
+}
+
+function getOidcUrl(realm: string, endpoint: string): string {
+  return `${getConfig('authUrl')}/auth/realms/${realm}/protocol/openid-connect/${endpoint}`;
+}
+
+/**
+ * POST a form to a Keycloak endpoint. Rejected credentials are auth errors,
+ * whatever status the server uses for them.
+ */
+async function postForm<T>(url: string, params: URLSearchParams): Promise<T> {
+  try {
+    const response = await getTokenClient().post<T>(url, params, {
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+    });
+    return response.data;
+  } catch (err) {
+    const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+    throw toApiError(err, status !== undefined && status < 500 ? 'auth' : undefined);
+  }
+}
+
+function requestToken(realm: string, params: URLSearchParams): Promise<TokenResponse> {
+  return postForm<TokenResponse>(getOidcUrl(realm, 'token'), params);
+}
 
+/**
+ * Form parameters identifying the client. Public clients have no secret.
+ */
+function clientParams(grantType: string, clientId: string, clientSecret?: string): URLSearchParams {
   const params = new URLSearchParams();
-  params.append('grant_type', 'client_credentials');
+  params.append('grant_type', grantType);
   params.append('client_id', clientId);
-  params.append('client_secret', clientSecret);
+  if (clientSecret) {
+    params.append('client_secret', clientSecret);
+  }
+  return params;
+}
 
-  const response = await axios.post<TokenResponse>(tokenUrl, params, {
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-  });
+function requireRealm(realm: string): void {
+  if (!realm) {
+    throw new CliError('Realm is not configured. Run "mydevices config set realm <realm>" or set MYDEVICES_REALM.', 'validation');
+  }
+}
 
-  const tokenData = response.data;
-  const expiresAt = Date.now() + tokenData.expires_in * 1000;
+/**
+ * Absolute expiry times for a token response. A refresh_expires_in of 0
+ * (or none) means the refresh token has no fixed lifetime.
+ */
+function tokenExpiries(tokenData: TokenResponse): Pick<AuthConfig, 'expiresAt' | 'refreshExpiresAt'> {
+  const now = Date.now();
+  return {
+    expiresAt: now + tokenData.expires_in * 1000,
+    refreshExpiresAt: tokenData.refresh_expires_in ? now + tokenData.refresh_expires_in * 1000 : 0,
+  };
+}
 
-  // Store credentials and tokens
-  setAuthConfig({
-    realm,
-    clientId,
-    clientSecret,
+/**
+ * Save the tokens from a login, and the grant used so refreshes follow its rules.
+ * The client secret is only saved when saveSecret is set; user logins always
+ * save it, so a public client (no secret) clears one left by an earlier login.
+ */
+function storeLogin(
+  grantType: GrantType,
+  creds: Credentials,
+  tokenData: TokenResponse,
+  saveSecret?: boolean
+): void {
+  const values: Partial<AuthConfig> = {
+    realm: creds.realm,
+    clientId: creds.clientId,
     accessToken: tokenData.access_token,
-    refreshToken: tokenData.refresh_token,
-    expiresAt,
-  });
+    refreshToken: tokenData.refresh_token || '',
+    ...tokenExpiries(tokenData),
+  };
+  if (saveSecret) {
+    values.clientSecret = creds.clientSecret;
+  }
+  saveAuth(values);
+  setConfig('grantType', grantType);
+  setConfig('tokenFile', '');
+}
+
+/**
+ * The login command that starts a new session for a grant
+ */
+export function getLoginHint(grantType: GrantType = getConfig('grantType')): string {
+  switch (grantType) {
+    case 'password':
+      return 'mydevices auth login --grant password';
+    case 'device':
+      return 'mydevices auth login --grant device';
+    case 'external':
+      return 'mydevices auth login --token-file <file>';
+    default:
+      return 'mydevices auth login';
+  }
+}
+
+// ============================================================================
+// Grants
+// ============================================================================
+
+/**
+ * Request a token with the client credentials grant.
+ * Without explicit credentials they are resolved through the provider chain.
+ * The client secret is only saved when saveSecret is set (credentials
+ * entered at login); env vars and credential_process are read each time.
+ */
+export async function authenticate(
+  credentials?: Credentials,
+  options: { saveSecret?: boolean } = {}
+): Promise<TokenResponse> {
+  const creds = credentials ?? (await resolveCredentials());
+  if (!creds) {
+    throw new CliError('No credentials found. Run "mydevices auth login" or set MYDEVICES_CLIENT_ID/MYDEVICES_CLIENT_SECRET.', 'auth');
+  }
+  requireRealm(creds.realm);
+
+  const params = clientParams('client_credentials', creds.clientId, creds.clientSecret);
+  const tokenData = await requestToken(creds.realm, params);
 
+  // Store tokens (and the secret, when entered at login)
+  storeLogin('client_credentials', creds, tokenData, options.saveSecret);
   return tokenData;
 }
 
-export async function refreshAccessToken(): Promise<TokenResponse> {
-  const auth = getAuthConfig();
-  const authUrl = getConfig('authUrl');
-  const tokenUrl = `${authUrl}/auth/realms/${auth.realm}/protocol/openid-connect/token`;
+/**
+ * Sign in as a user with the resource owner password grant. The password
+ * is sent once and never stored, so the session lasts as long as its
+ * refresh token.
+ */
+export async function authenticateWithPassword(creds: UserCredentials): Promise<TokenResponse> {
+  requireRealm(creds.realm);
+
+  const params = clientParams('password', creds.clientId, creds.clientSecret);
+  params.append('username', creds.username);
+  params.append('password', creds.password);
+  const tokenData = await requestToken(creds.realm, params);
+
+  storeLogin('password', creds, tokenData, true);
+  setConfig('username', creds.username);
+  return tokenData;
+}
+
+/**
+ * Start the OAuth device authorization flow. The user approves the
+ * returned user code in a browser while pollDeviceToken() waits.
+ */
+export async function startDeviceAuthorization(creds: Credentials): Promise<DeviceAuthorization> {
+  requireRealm(creds.realm);
 
   const params = new URLSearchParams();
-  params.append('grant_type', 'refresh_token');
-  params.append('client_id', auth.clientId);
-  params.append('client_secret', auth.clientSecret);
-  params.append('refresh_token', auth.refreshToken || '');
+  params.append('client_id', creds.clientId);
+  if (creds.clientSecret) {
+    params.append('client_secret', creds.clientSecret);
+  }
+  return postForm<DeviceAuthorization>(getOidcUrl(creds.realm, 'auth/device'), params);
+}
 
-  const response = await axios.post<TokenResponse>(tokenUrl, params, {
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
+/**
+ * Poll the token endpoint until the device code is approved, denied or expires
+ */
+export async function pollDeviceToken(
+  creds: Credentials,
+  authorization: DeviceAuthorization
+): Promise<TokenResponse> {
+  const params = clientParams(DEVICE_CODE_GRANT, creds.clientId, creds.clientSecret);
+  params.append('device_code', authorization.device_code);
+
+  let interval = (authorization.interval || 5) * 1000;
+  const deadline = Date.now() + authorization.expires_in * 1000;
+
+  while (Date.now() < deadline) {
+    await sleep(interval);
+    try {
+      const tokenData = await requestToken(creds.realm, params);
+      storeLogin('device', creds, tokenData, true);
+      return tokenData;
+    } catch (err) {
+      const code = err instanceof ApiError ? err.code : undefined;
+      if (code === 'authorization_pending') continue;
+      if (code === 'slow_down') {
+        interval += 5000;
+        continue;
+      }
+      if (code === 'access_denied') {
+        throw new CliError('Device authorization was denied.', 'auth');
+      }
+      if (code !== 'expired_token') throw err;
+      break;
+    }
+  }
+
+  throw new CliError(`Device code expired before it was approved. Run "${getLoginHint('device')}" again.`, 'auth');
+}
+
+/**
+ * Use an access token obtained outside the CLI. Only JWTs with an expiry
+ * are accepted, since nothing else says when the token stops working.
+ * With a tokenFile, the file is read again whenever the token expires.
+ */
+export function importToken(token: string, options: { tokenFile?: string } = {}): TokenInfo {
+  const accessToken = token.trim();
+  if (!accessToken) {
+    throw new CliError('No token provided', 'validation');
+  }
+
+  const info = describeToken(decodeJwt(accessToken).claims);
+  if (!info.expiresAt) {
+    throw new CliError('Token has no expiry (exp claim)', 'validation');
+  }
+  if (info.expiresAt.getTime() <= Date.now()) {
+    throw new CliError(`Token expired at ${info.expiresAt.toLocaleString()}`, 'auth');
+  }
+
+  saveAuth({
+    realm: info.realm || getConfig('realm'),
+    clientId: info.client || '',
+    clientSecret: '',
+    accessToken,
+    refreshToken: '',
+    expiresAt: info.expiresAt.getTime(),
+    refreshExpiresAt: 0,
   });
+  setConfig('grantType', 'external');
+  setConfig('tokenFile', options.tokenFile || '');
+  return info;
+}
+
+export function readTokenFile(file: string): string {
+  try {
+    return readFileSync(file, 'utf8');
+  } catch (err) {
+    throw new CliError(`Cannot read token file ${file}: ${err instanceof Error ? err.message : err}`, 'auth');
+  }
+}
+
+// ============================================================================
+// Refresh
+// ============================================================================
+
+function isExpiring(expiresAt: number | undefined): boolean {
+  return !!expiresAt && expiresAt < Date.now() + EXPIRY_BUFFER_MS;
+}
+
+export async function refreshAccessToken(): Promise<TokenResponse> {
+  const auth = loadAuth();
 
-  const tokenData = response.data;
-  const expiresAt = Date.now() + tokenData.expires_in * 1000;
+  // Service clients may take their secret from env vars or credential_process;
+  // user logins refresh through the client they signed in with
+  const creds = getConfig('grantType') === 'client_credentials' ? await resolveCredentials() : null;
 
-  setAuthConfig({
+  const params = clientParams(
+    'refresh_token',
+    creds?.clientId || auth.clientId,
+    creds?.clientSecret || auth.clientSecret
+  );
+  params.append('refresh_token', auth.refreshToken || '');
+
+  const tokenData = await requestToken(auth.realm, params);
+
+  saveAuth({
     accessToken: tokenData.access_token,
-    refreshToken: tokenData.refresh_token,
-    expiresAt,
+    // Keycloak may rotate the refresh token
+    refreshToken: tokenData.refresh_token || auth.refreshToken,
+    ...tokenExpiries(tokenData),
   });
 
   return tokenData;
 }
 
+/**
+ * An injected token cannot be refreshed; re-read its file in case it was rotated
+ */
+function getExternalToken(auth: AuthConfig): string {
+  if (auth.accessToken && !isExpiring(auth.expiresAt)) {
+    return auth.accessToken;
+  }
+
+  const tokenFile = getConfig('tokenFile');
+  if (tokenFile) {
+    const token = readTokenFile(tokenFile).trim();
+    if (token !== auth.accessToken) {
+      importToken(token, { tokenFile });
+      return token;
+    }
+  }
+
+  throw new CliError(`Access token has expired. Run "${getLoginHint('external')}" with a new token.`, 'auth');
+}
+
+/**
+ * Return a usable access token, refreshing it by the rules of the grant it
+ * came from. Only service clients can sign in again unattended: user
+ * passwords are never stored and device approval needs a person.
+ */
 export async function getValidToken(): Promise<string> {
-  const auth = getAuthConfig();
+  const auth = loadAuth();
+  const grantType = getConfig('grantType');
+
+  if (grantType === 'external') {
+    return getExternalToken(auth);
+  }
 
   if (!auth.accessToken) {
-    throw new Error('Not authenticated. Run "mydevices auth login" first.');
+    // Not logged in, but credentials may come from env vars or credential_process
+    const creds = grantType === 'client_credentials' ? await resolveCredentials() : null;
+    if (!creds) {
+      throw new CliError(`Not authenticated. Run "${getLoginHint()}" first.`, 'auth');
+    }
+    const newTokens = await authenticate(creds);
+    return newTokens.access_token;
   }
 
-  // Check if token is expired or will expire in the next minute
-  const bufferTime = 60 * 1000; // 1 minute buffer
-  if (auth.expiresAt && auth.expiresAt < Date.now() + bufferTime) {
-    // Try to refresh first
-    if (auth.refreshToken) {
+  if (isExpiring(auth.expiresAt)) {
+    // Try to refresh first, unless the refresh token is known to have expired
+    const refreshExpired = !!auth.refreshExpiresAt && auth.refreshExpiresAt <= Date.now();
+    if (auth.refreshToken && !refreshExpired) {
       try {
         const newTokens = await refreshAccessToken();
         return newTokens.access_token;
-      } catch {
-        // Refresh failed, fall through to re-authenticate
+      } catch (err) {
+        // A rejected refresh token falls through to re-authenticate;
+        // network and server errors are reported as they are
+        if (err instanceof CliError && err.kind !== 'auth') throw err;
       }
     }
 
-    // Re-authenticate using stored credentials
-    if (auth.clientId && auth.clientSecret && auth.realm) {
+    // Re-authenticate using credentials from the provider chain
+    const creds = grantType === 'client_credentials' ? await resolveCredentials() : null;
+    if (creds) {
       try {
-        const newTokens = await authenticate(auth.realm, auth.clientId, auth.clientSecret);
+        const newTokens = await authenticate(creds);
         return newTokens.access_token;
-      } catch {
-        throw new Error('Session expired. Run "mydevices auth login" to re-authenticate.');
+      } catch (err) {
+        if (err instanceof CliError && err.kind !== 'auth') throw err;
+        throw new CliError(`Session expired. Run "${getLoginHint()}" to re-authenticate.`, 'auth');
       }
     }
 
-    throw new Error('Session expired. Run "mydevices auth login" to re-authenticate.');
+    throw new CliError(`Session expired. Run "${getLoginHint()}" to re-authenticate.`, 'auth');
   }
 
   return auth.accessToken;
 }
 
-export function getTokenExpiry(): { expiresAt: number; expiresIn: string } | null {
-  const auth = getAuthConfig();
-  if (!auth.expiresAt || !auth.accessToken) return null;
+// Warn when the refresh token has less than this left
+const REFRESH_WARNING_MS = 10 * 60 * 1000;
 
-  const now = Date.now();
-  const diff = auth.expiresAt - now;
+export interface TokenExpiry {
+  expiresAt: number;
+  expiresIn: string;
+}
+
+function describeExpiry(expiresAt: number): TokenExpiry {
+  const diff = expiresAt - Date.now();
 
   if (diff <= 0) {
-    return { expiresAt: auth.expiresAt, expiresIn: 'expired' };
+    return { expiresAt, expiresIn: 'expired' };
   }
 
   const hours = Math.floor(diff / (1000 * 60 * 60));
   const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
 
   return {
-    expiresAt: auth.expiresAt,
+    expiresAt,
     expiresIn: `${hours}h ${minutes}m`,
   };
 }
+
+export function getTokenExpiry(): TokenExpiry | null {
+  // Expiry is never secret, so this works without unlocking the encrypted store
+  const { expiresAt } = getAuthConfig();
+  return expiresAt ? describeExpiry(expiresAt) : null;
+}
+
+/**
+ * Refresh token expiry, or null when unknown or unlimited
+ */
+export function getRefreshTokenExpiry(): TokenExpiry | null {
+  const { refreshExpiresAt } = getAuthConfig();
+  return refreshExpiresAt ? describeExpiry(refreshExpiresAt) : null;
+}
+
+/**
+ * Whether the refresh token expires (or has expired) within the next few minutes
+ */
+export function isRefreshTokenExpiring(): boolean {
+  const expiry = getRefreshTokenExpiry();
+  return !!expiry && expiry.expiresAt - Date.now() < REFRESH_WARNING_MS;
+}
@@ -2,6 +2,10 @@ import ora from 'ora';
 import chalk from 'chalk';
 import { apiGet, apiPost, apiPut } from './api.js';
 import { getConfig } from './config.js';
+import { getTemplatesPath } from './paths.js';
+import { cachedApiGet } from './cache.js';
+import { runPool, DEFAULT_CONCURRENCY } from './pool.js';
+import { isInteractive, ensureInteractive } from './interactive.js';
 import type { ColumnMapping, HierarchyMapping, LocationDefaults } from './column-mapper.js';
 
 // Types
@@ -66,7 +70,7 @@ export interface DeviceTemplate {
   device_use?: DeviceUse[];
 }
 
-interface FormSettingsField {
+export interface FormSettingsField {
   order: number;
   label: string;
   type: string;
@@ -256,6 +260,24 @@ function sortLocationsByDepth(locations: Map<string, LocationNode>): string[] {
   return entries.map(([path]) => path);
 }
 
+/**
+ * Split depth-sorted paths into levels. Locations in a level share no
+ * parent/child relationship, so they can be created concurrently.
+ */
+function groupLocationsByDepth(sortedPaths: string[]): string[][] {
+  const levels: string[][] = [];
+  for (const path of sortedPaths) {
+    const depth = path.split('/').length;
+    const last = levels[levels.length - 1];
+    if (last && last[0].split('/').length === depth) {
+      last.push(path);
+    } else {
+      levels.push([path]);
+    }
+  }
+  return levels;
+}
+
 /**
  * Build a path map from a flat list of locations using parent_id to
  * reconstruct the hierarchy.  Returns "Parent/Child/Grandchild" -> Location.
@@ -319,14 +341,6 @@ function getRegistryPath(): string {
   return `/v1.1/organizations/${clientId}/applications/${clientId}/things/registry`;
 }
 
-/**
- * Get API base path for templates
- */
-function getTemplatesPath(): string {
-  const clientId = getConfig('clientId');
-  return `/v1.1/organizations/${clientId}/applications/${clientId}/things/types`;
-}
-
 /**
  * Extract template info for device creation
  * - device_category = template.category
@@ -410,7 +424,8 @@ function validateDeviceTypeConsistency(
 
 /**
  * Prompt the user for form_settings values.
- * Fields already provided via cliOverrides are skipped.
+ * Fields already provided via cliOverrides are skipped. When non-interactive,
+ * defaults are used and a required field without one is an error.
  * Returns a Record<string, string> of key -> value.
  */
 export async function promptFormSettings(
@@ -431,6 +446,15 @@ export async function promptFormSettings(
       continue;
     }
 
+    if (!isInteractive()) {
+      if (field.default_value !== undefined) {
+        values[field.key] = String(field.default_value);
+      } else if (field.required) {
+        ensureInteractive(`device setting "${field.label}"`, `pass --device-setting ${field.key}=<value>`);
+      }
+      continue;
+    }
+
     // Show help text if available
     if (field.help_texts && field.help_texts.length > 0) {
       const sortedHelp = [...field.help_texts].sort((a, b) => a.order - b.order);
@@ -467,7 +491,7 @@ export async function promptFormSettings(
  * Exported for use by the CLI command to extract form_settings.
  */
 export async function fetchDeviceType(deviceTypeId: string): Promise<DeviceTemplate> {
-  return await apiGet<DeviceTemplate>(`${getTemplatesPath()}/${deviceTypeId}`);
+  return await cachedApiGet<DeviceTemplate>('templates', `${getTemplatesPath()}/${deviceTypeId}`);
 }
 
 /**
@@ -481,7 +505,7 @@ async function fetchTemplates(templateIds: string[]): Promise<Map<string, Templa
   // Fetch each template (API doesn't support batch lookup)
   for (const templateId of templateIds) {
     try {
-      const template = await apiGet<DeviceTemplate>(`${getTemplatesPath()}/${templateId}`);
+      const template = await cachedApiGet<DeviceTemplate>('templates', `${getTemplatesPath()}/${templateId}`);
       templateMap.set(templateId, extractTemplateInfo(template));
     } catch {
       // Template not found, will use fallback values
@@ -630,9 +654,39 @@ async function createDevice(
   return await apiPost<Device>(getDevicesPath(), payload);
 }
 
+/**
+ * A device's properties as an object. The API stores them as a
+ * stringified JSON object; anything unreadable counts as empty.
+ */
+export function parseDeviceProperties(properties: unknown): Record<string, unknown> {
+  if (!properties) return {};
+  if (typeof properties === 'object') return { ...(properties as Record<string, unknown>) };
+  try {
+    const parsed = JSON.parse(String(properties));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Replace a device's properties
+ */
+export async function writeDeviceProperties(
+  deviceId: number | string,
+  properties: Record<string, unknown>,
+  userId?: string
+): Promise<void> {
+  const clientId = getConfig('clientId');
+  await apiPut(`${getDevicesPath()}/${deviceId}`, {
+    user_id: userId || clientId,
+    application_id: clientId,
+    properties,
+  });
+}
+
 /**
  * Update a device's properties by merging new values into existing ones.
- * The device's properties field is a stringified JSON object.
  * New values override existing keys; existing keys not in newProperties are preserved.
  */
 async function updateDeviceProperties(
@@ -641,28 +695,11 @@ async function updateDeviceProperties(
   newProperties: Record<string, string>,
   userId?: string
 ): Promise<void> {
-  const clientId = getConfig('clientId');
-
-  let properties: Record<string, unknown> = {};
-  if (existingProperties) {
-    try {
-      properties = typeof existingProperties === 'string'
-        ? JSON.parse(existingProperties)
-        : (existingProperties as unknown as Record<string, unknown>);
-    } catch {
-      properties = {};
-    }
-  }
-
+  const properties = parseDeviceProperties(existingProperties);
   for (const [key, value] of Object.entries(newProperties)) {
     properties[key] = value;
   }
-
-  await apiPut(`${getDevicesPath()}/${deviceId}`, {
-    user_id: userId || clientId,
-    application_id: clientId,
-    properties,
-  });
+  await writeDeviceProperties(deviceId, properties, userId);
 }
 
 /**
@@ -692,10 +729,13 @@ export async function bulkImport(
     deviceTypeId?: string;
     deviceSettings?: Record<string, string>;
     prefixLocationName?: boolean;
+    /** Requests in flight at once (default DEFAULT_CONCURRENCY) */
+    concurrency?: number;
     onProgress?: (current: number, total: number, message: string) => void;
   }
 ): Promise<ImportSummary> {
   const { userId, companyId, dryRun = false, locationDefaults = {}, deviceTypeId, deviceSettings, prefixLocationName = true, onProgress } = options;
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
 
   const summary: ImportSummary = {
     locationsCreated: 0,
@@ -730,27 +770,18 @@ export async function bulkImport(
   // Step 3: Sort locations by depth (parents first)
   const sortedPaths = sortLocationsByDepth(locationPaths);
 
-  // Step 4: Create/match locations
+  // Step 4: Create/match locations, one depth level at a time so every
+  // parent exists before its children; siblings are created concurrently
   const locationIdMap = new Map<string, number>(); // path -> id
 
-  // Create new locations in order (parents before children)
-  for (const path of sortedPaths) {
+  const importLocation = async (path: string): Promise<ImportResult> => {
     const node = locationPaths.get(path)!;
 
     // Check if already exists by full hierarchy path
     if (existingLocations.has(path)) {
       const existing = existingLocations.get(path)!;
       locationIdMap.set(path, existing.id);
-      summary.locationsMatched++;
-      summary.results.push({
-        success: true,
-        row: 0,
-        type: 'location',
-        action: 'matched',
-        name: node.name,
-        id: existing.id,
-      });
-      continue;
+      return { success: true, row: 0, type: 'location', action: 'matched', name: node.name, id: existing.id };
     }
 
     // Get parent ID from the path map
@@ -758,31 +789,20 @@ export async function bulkImport(
     if (node.parentPath) {
       parentId = locationIdMap.get(node.parentPath) || null;
       if (!parentId) {
-        summary.locationsFailed++;
-        summary.results.push({
+        return {
           success: false,
           row: 0,
           type: 'location',
           action: 'failed',
           name: node.name,
           error: `Parent location not found for path: ${node.parentPath}`,
-        });
-        continue;
+        };
       }
     }
 
     if (dryRun) {
-      summary.locationsCreated++;
-      summary.results.push({
-        success: true,
-        row: 0,
-        type: 'location',
-        action: 'created',
-        name: node.name,
-        id: undefined,
-      });
       locationIdMap.set(path, -1); // Placeholder for dry run
-      continue;
+      return { success: true, row: 0, type: 'location', action: 'created', name: node.name, id: undefined };
     }
 
     // Create location
@@ -794,26 +814,42 @@ export async function bulkImport(
       };
       const newLoc = await createLocation(locationData, parentId, userId, companyId);
       locationIdMap.set(path, newLoc.id);
-      summary.locationsCreated++;
-      summary.results.push({
-        success: true,
-        row: 0,
-        type: 'location',
-        action: 'created',
-        name: node.name,
-        id: newLoc.id,
-      });
+      return { success: true, row: 0, type: 'location', action: 'created', name: node.name, id: newLoc.id };
     } catch (err) {
-      summary.locationsFailed++;
-      summary.results.push({
+      return {
         success: false,
         row: 0,
         type: 'location',
         action: 'failed',
         name: node.name,
         error: err instanceof Error ? err.message : 'Unknown error',
-      });
+      };
     }
+  };
+
+  let locationsDone = 0;
+  for (const level of groupLocationsByDepth(sortedPaths)) {
+    const levelResults = await runPool(level, importLocation, {
+      concurrency,
+      onSettled: () => {
+        locationsDone++;
+        onProgress?.(locationsDone, sortedPaths.length, 'Creating locations...');
+      },
+    });
+    levelResults.forEach((result, i) => {
+      const imported: ImportResult = result.ok ? result.value : {
+        success: false,
+        row: 0,
+        type: 'location',
+        action: 'failed',
+        name: locationPaths.get(level[i])!.name,
+        error: result.error instanceof Error ? result.error.message : 'Unknown error',
+      };
+      summary.results.push(imported);
+      if (imported.action === 'matched') summary.locationsMatched++;
+      else if (imported.action === 'created') summary.locationsCreated++;
+      else summary.locationsFailed++;
+    });
   }
 
   // Step 5: Fetch device templates
@@ -838,13 +874,11 @@ export async function bulkImport(
   await validateHardwareIds(hardwareIds);
 
   // Step 7: Create devices
-  for (let i = 0; i < rows.length; i++) {
-    const row = rows[i];
-    onProgress?.(i + 1, rows.length, `Processing row ${row.rowNumber}...`);
-
+  const importDevice = async (row: ParsedRow): Promise<ImportResult | null> => {
     if (!row.device.hardware_id) {
-      continue; // No device in this row
+      return null; // No device in this row
     }
+    const name = row.device.name || row.device.hardware_id;
 
     // Get location ID for the deepest level
     const locationPath = getDeepestLocationPath(row, prefixLocationName);
@@ -853,29 +887,19 @@ export async function bulkImport(
     if (locationPath) {
       locationId = locationIdMap.get(locationPath);
       if (!locationId && !dryRun) {
-        summary.devicesFailed++;
-        summary.results.push({
+        return {
           success: false,
           row: row.rowNumber,
           type: 'device',
           action: 'failed',
-          name: row.device.name || row.device.hardware_id,
+          name,
           error: `Location not found for path: ${locationPath}`,
-        });
-        continue;
+        };
       }
     }
 
     if (dryRun) {
-      summary.devicesCreated++;
-      summary.results.push({
-        success: true,
-        row: row.rowNumber,
-        type: 'device',
-        action: 'created',
-        name: row.device.name || row.device.hardware_id,
-      });
-      continue;
+      return { success: true, row: row.rowNumber, type: 'device', action: 'created', name };
     }
 
     // Create device
@@ -893,41 +917,50 @@ export async function bulkImport(
           await updateDeviceProperties(device.id, device.properties, deviceSettings, userId);
         } catch (err) {
           // Warn but don't fail the device - it was created successfully
-          summary.results.push({
+          return {
             success: true,
             row: row.rowNumber,
             type: 'device',
             action: 'created',
-            name: row.device.name || row.device.hardware_id,
+            name,
             id: device.id,
             error: `Device created but settings failed: ${err instanceof Error ? err.message : 'Unknown error'}`,
-          });
-          summary.devicesCreated++;
-          continue;
+          };
         }
       }
 
-      summary.devicesCreated++;
-      summary.results.push({
-        success: true,
-        row: row.rowNumber,
-        type: 'device',
-        action: 'created',
-        name: row.device.name || row.device.hardware_id,
-        id: device.id,
-      });
+      return { success: true, row: row.rowNumber, type: 'device', action: 'created', name, id: device.id };
     } catch (err) {
-      summary.devicesFailed++;
-      summary.results.push({
+      return {
         success: false,
         row: row.rowNumber,
         type: 'device',
         action: 'failed',
-        name: row.device.name || row.device.hardware_id,
+        name,
         error: err instanceof Error ? err.message : 'Unknown error',
-      });
+      };
     }
-  }
+  };
+
+  // Rows finish in any order; results are collected in row order
+  const deviceResults = await runPool(rows, importDevice, {
+    concurrency,
+    onSettled: (done, total, row) => onProgress?.(done, total, `Processed row ${row.rowNumber}...`),
+  });
+  deviceResults.forEach((result, i) => {
+    const imported: ImportResult | null = result.ok ? result.value : {
+      success: false,
+      row: rows[i].rowNumber,
+      type: 'device',
+      action: 'failed',
+      name: rows[i].device.name || rows[i].device.hardware_id || '',
+      error: result.error instanceof Error ? result.error.message : 'Unknown error',
+    };
+    if (!imported) return;
+    summary.results.push(imported);
+    if (imported.action === 'created') summary.devicesCreated++;
+    else summary.devicesFailed++;
+  });
 
   return summary;
 }
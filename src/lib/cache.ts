@@ -0,0 +1,183 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { apiGet } from './api.js';
+import { getConfig, getConfigPath, getActiveProfile } from './config.js';
+import { getRuntimeOptions } from './global-options.js';
+import { getCassetteSettings } from './cassette.js';
+
+/**
+ * Reference data that changes rarely enough to cache, and how long (seconds)
+ */
+export const CACHE_TTLS = {
+  templates: 60 * 60,
+  codecs: 60 * 60,
+  datatypes: 24 * 60 * 60,
+  networks: 24 * 60 * 60,
+} as const;
+
+export type CacheResource = keyof typeof CACHE_TTLS;
+
+export const CACHE_RESOURCES = Object.keys(CACHE_TTLS) as CacheResource[];
+
+interface CacheEntry<T = unknown> {
+  resource: CacheResource;
+  profile: string;
+  key: string;
+  storedAt: number;
+  expiresAt: number;
+  data: T;
+}
+
+export interface CacheStats {
+  resource: CacheResource;
+  /** Seconds */
+  ttl: number;
+  entries: number;
+  fresh: number;
+  expired: number;
+  bytes: number;
+}
+
+export function getCacheDir(): string {
+  return join(dirname(getConfigPath()), 'cache');
+}
+
+/**
+ * Whether cached responses may be used: not with --no-cache or
+ * MYDEVICES_NO_CACHE, nor while recording or replaying a cassette (which
+ * must see every request)
+ */
+export function isCacheEnabled(): boolean {
+  if (getRuntimeOptions().cache === false) return false;
+  if (process.env.MYDEVICES_NO_CACHE === '1') return false;
+  return getCassetteSettings() === null;
+}
+
+/**
+ * Cache key: profile, API URL, path and sorted params, so profiles and
+ * environments never share entries
+ */
+function cacheKey(path: string, params?: Record<string, unknown>): string {
+  const query = Object.entries(params || {})
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${String(value)}`)
+    .join('&');
+  return `${getActiveProfile()} ${getConfig('apiUrl')}${path}${query ? `?${query}` : ''}`;
+}
+
+function entryPath(key: string): string {
+  return join(getCacheDir(), `${createHash('sha256').update(key).digest('hex')}.json`);
+}
+
+function readEntry(file: string): CacheEntry | null {
+  try {
+    return JSON.parse(readFileSync(file, 'utf8')) as CacheEntry;
+  } catch {
+    // Missing or corrupt entries are just cache misses
+    return null;
+  }
+}
+
+function listEntryFiles(): string[] {
+  const dir = getCacheDir();
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((name) => name.endsWith('.json'))
+    .map((name) => join(dir, name));
+}
+
+/**
+ * GET through the cache. Fresh entries are served without a request;
+ * --refresh skips the lookup but still stores the new response.
+ */
+export async function cachedApiGet<T>(
+  resource: CacheResource,
+  path: string,
+  params?: Record<string, unknown>
+): Promise<T> {
+  if (!isCacheEnabled()) {
+    return apiGet<T>(path, params);
+  }
+
+  const key = cacheKey(path, params);
+  const file = entryPath(key);
+
+  if (!getRuntimeOptions().refresh) {
+    const entry = readEntry(file);
+    if (entry && entry.key === key && entry.expiresAt > Date.now()) {
+      return entry.data as T;
+    }
+  }
+
+  const data = await apiGet<T>(path, params);
+
+  const now = Date.now();
+  const entry: CacheEntry<T> = {
+    resource,
+    profile: getActiveProfile(),
+    key,
+    storedAt: now,
+    expiresAt: now + CACHE_TTLS[resource] * 1000,
+    data,
+  };
+  try {
+    mkdirSync(getCacheDir(), { recursive: true, mode: 0o700 });
+    writeFileSync(file, JSON.stringify(entry), { mode: 0o600 });
+  } catch {
+    // A read-only or full disk only costs the next call a request
+  }
+
+  return data;
+}
+
+/**
+ * Remove cached entries, optionally only those of one resource.
+ * Returns the number of entries removed.
+ */
+export function clearCache(resource?: CacheResource): number {
+  let removed = 0;
+  for (const file of listEntryFiles()) {
+    if (resource && readEntry(file)?.resource !== resource) continue;
+    rmSync(file, { force: true });
+    removed++;
+  }
+  return removed;
+}
+
+/**
+ * Drop a resource's entries after the CLI changes it, so the next read is current
+ */
+export function invalidateCache(resource: CacheResource): void {
+  try {
+    clearCache(resource);
+  } catch {
+    // Stale entries still expire on their own
+  }
+}
+
+export function getCacheStats(): CacheStats[] {
+  const stats = new Map<CacheResource, CacheStats>(
+    CACHE_RESOURCES.map((resource) => [
+      resource,
+      { resource, ttl: CACHE_TTLS[resource], entries: 0, fresh: 0, expired: 0, bytes: 0 },
+    ])
+  );
+  const now = Date.now();
+
+  for (const file of listEntryFiles()) {
+    const entry = readEntry(file);
+    const stat = entry && stats.get(entry.resource);
+    if (!stat) continue;
+    stat.entries++;
+    if (entry.expiresAt > now) {
+      stat.fresh++;
+    } else {
+      stat.expired++;
+    }
+    stat.bytes += statSync(file).size;
+  }
+
+  return [...stats.values()];
+}
@@ -0,0 +1,213 @@
+import axios, { AxiosError, AxiosHeaders } from 'axios';
+import type { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { getRuntimeOptions } from './global-options.js';
+import { CliError } from './errors.js';
+import { redactHeaders, redactBody } from './redact.js';
+import { getNetworkAdapter } from './http.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteSettings {
+  mode: CassetteMode;
+  file: string;
+}
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    url: string;
+    params?: Record<string, unknown>;
+    headers: Record<string, unknown>;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, unknown>;
+    body?: unknown;
+  };
+}
+
+export interface Cassette {
+  version: 1;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Resolve record/replay mode: --record/--replay flags, then
+ * MYDEVICES_RECORD/MYDEVICES_REPLAY (ignored when either flag is given)
+ */
+export function getCassetteSettings(): CassetteSettings | null {
+  const runtime = getRuntimeOptions();
+  const fromFlags = runtime.record !== undefined || runtime.replay !== undefined;
+  const record = fromFlags ? runtime.record : process.env.MYDEVICES_RECORD;
+  const replay = fromFlags ? runtime.replay : process.env.MYDEVICES_REPLAY;
+
+  if (record && replay) {
+    throw new CliError('Record and replay modes cannot be used together');
+  }
+  if (replay) return { mode: 'replay', file: replay };
+  if (record) return { mode: 'record', file: record };
+  return null;
+}
+
+export function isReplayMode(): boolean {
+  return getCassetteSettings()?.mode === 'replay';
+}
+
+function parseBody(data: unknown): unknown {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+function serializeBody(body: unknown): string | undefined {
+  if (body === undefined) return undefined;
+  return typeof body === 'string' ? body : JSON.stringify(body);
+}
+
+/**
+ * Key used to match a request against the cassette: method, path and params
+ */
+function requestKey(method: string, url: string, params?: Record<string, unknown>): string {
+  const query = Object.entries(params || {})
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${String(value)}`)
+    .join('&');
+  return `${method.toUpperCase()} ${url}${query ? `?${query}` : ''}`;
+}
+
+function headersToObject(headers: unknown): Record<string, unknown> {
+  if (headers instanceof AxiosHeaders) return headers.toJSON();
+  return (headers as Record<string, unknown>) || {};
+}
+
+// ============================================================================
+// Record
+// ============================================================================
+
+function createRecordAdapter(file: string): AxiosAdapter {
+  const network = getNetworkAdapter();
+  const cassette: Cassette = {
+    version: 1,
+    recordedAt: new Date().toISOString(),
+    interactions: [],
+  };
+
+  const save = (config: InternalAxiosRequestConfig, response: AxiosResponse): void => {
+    cassette.interactions.push({
+      request: {
+        method: (config.method || 'get').toUpperCase(),
+        url: config.url || '',
+        params: config.params,
+        headers: redactHeaders(headersToObject(config.headers)),
+        body: redactBody(parseBody(config.data)),
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: redactHeaders(headersToObject(response.headers)),
+        body: redactBody(parseBody(response.data)),
+      },
+    });
+    // Written after every exchange so the file survives an early exit
+    writeFileSync(file, JSON.stringify(cassette, null, 2));
+  };
+
+  return async (config) => {
+    try {
+      const response = await network(config);
+      save(config, response);
+      return response;
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response) {
+        save(config, err.response);
+      }
+      throw err;
+    }
+  };
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+function loadCassette(file: string): Cassette {
+  if (!existsSync(file)) {
+    throw new CliError(`Cassette file not found: ${file}`);
+  }
+  try {
+    return JSON.parse(readFileSync(file, 'utf8')) as Cassette;
+  } catch (err) {
+    throw new CliError(`Invalid cassette file ${file}: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/**
+ * Serve recorded responses without touching the network. Interactions with
+ * the same method, path and params are replayed in recording order; the last
+ * one is repeated once they run out.
+ */
+function createReplayAdapter(file: string): AxiosAdapter {
+  let cassette: Cassette | null = null;
+  const used = new Set<number>();
+
+  return async (config) => {
+    cassette ??= loadCassette(file);
+
+    const method = config.method || 'get';
+    const key = requestKey(method, config.url || '', config.params);
+    const matches = cassette.interactions
+      .map((interaction, index) => ({ interaction, index }))
+      .filter(({ interaction }) =>
+        requestKey(interaction.request.method, interaction.request.url, interaction.request.params) === key
+      );
+
+    if (matches.length === 0) {
+      throw new CliError(`No recorded response for ${key} in cassette ${file}`);
+    }
+
+    const match = matches.find(({ index }) => !used.has(index)) || matches[matches.length - 1];
+    used.add(match.index);
+
+    const recorded = match.interaction.response;
+    const response: AxiosResponse = {
+      data: serializeBody(recorded.body),
+      status: recorded.status,
+      statusText: recorded.statusText,
+      headers: new AxiosHeaders(recorded.headers as Record<string, string>),
+      config,
+      request: {},
+    };
+
+    const validateStatus = config.validateStatus;
+    if (!validateStatus || validateStatus(response.status)) {
+      return response;
+    }
+
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  };
+}
+
+/**
+ * Adapter for the active record/replay mode, or undefined for plain network access
+ */
+export function getCassetteAdapter(): AxiosAdapter | undefined {
+  const settings = getCassetteSettings();
+  if (!settings) return undefined;
+  return settings.mode === 'record'
+    ? createRecordAdapter(settings.file)
+    : createReplayAdapter(settings.file);
+}
@@ -1,6 +1,7 @@
 import { select, confirm, input } from '@inquirer/prompts';
 import { readFileSync, writeFileSync, existsSync } from 'fs';
 import chalk from 'chalk';
+import { isInteractive, ensureInteractive } from './interactive.js';
 
 export interface ColumnMapping {
   [csvColumn: string]: string | string[] | null; // null means skip, array for multiple targets
@@ -170,6 +171,8 @@ function buildMappingChoices(alreadyMapped: Set<string>, hierarchyCount: number)
  * Interactive column mapping
  */
 export async function interactiveMapping(csvColumns: string[]): Promise<MappingResult> {
+  ensureInteractive('the column mapping', 'pass --mapping <file> (create one with --save-mapping)');
+
   const mappings: ColumnMapping = {};
   const hierarchy: HierarchyMapping = { columns: [] };
   const alreadyMapped = new Set<string>();
@@ -376,9 +379,11 @@ export function validateMapping(mappings: ColumnMapping, hierarchy: HierarchyMap
 }
 
 /**
- * Prompt to save mapping
+ * Prompt to save mapping (skipped when non-interactive)
  */
 export async function promptSaveMapping(mappings: ColumnMapping, hierarchy: HierarchyMapping): Promise<void> {
+  if (!isInteractive()) return;
+
   const shouldSave = await confirm({
     message: 'Save this mapping for reuse?',
     default: false,
@@ -414,6 +419,12 @@ export async function promptLocationDefaults(mappings: ColumnMapping): Promise<L
   );
   const defaults: LocationDefaults = {};
 
+  const unmapped = ['address', 'city', 'state', 'country', 'zip', 'industry']
+    .filter((field) => !mappedFields.has(`location.${field}`));
+  if (unmapped.length > 0) {
+    ensureInteractive('location defaults', `pass ${unmapped.map((field) => `--location-${field}`).join(', ')}`);
+  }
+
   console.log(chalk.cyan('\nLocation Defaults'));
   console.log(chalk.gray('Provide default values for location fields not mapped from CSV.\n'));
 
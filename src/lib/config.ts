@@ -1,43 +1,191 @@
 import Conf from 'conf';
 import type { AuthConfig } from '../types/index.js';
 
-interface ConfigSchema {
+/**
+ * Settings scoped to a named profile (one realm/environment each)
+ */
+export interface ProfileConfig {
   realm: string;
   apiUrl: string;
   authUrl: string;
-  defaultOutput: 'table' | 'json';
   clientId: string;
   clientSecret: string;
   accessToken: string;
   refreshToken: string;
   expiresAt: number;
+  refreshExpiresAt: number;
+  grantType: GrantType;
+  username: string;
+  tokenFile: string;
+  credentialProcess: string;
+  credentialStore: CredentialStoreKind;
+  keyFile: string;
 }
 
-const config = new Conf<ConfigSchema>({
+/**
+ * How a profile obtained its tokens: a service client, a user's password,
+ * the device authorization flow, or a token injected from outside the CLI
+ */
+export type GrantType = 'client_credentials' | 'password' | 'device' | 'external';
+
+/**
+ * How command results are printed: a table of the main columns, structured
+ * data, or a wide table of every field
+ */
+export const OUTPUT_FORMATS = ['table', 'json', 'csv', 'tsv', 'yaml', 'ndjson', 'wide'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * Where a profile keeps its client secret and tokens
+ */
+export type CredentialStoreKind = 'plaintext' | 'encrypted';
+
+/**
+ * Settings shared by all profiles
+ */
+interface GlobalConfig {
+  defaultOutput: OutputFormat;
+  currentProfile: string;
+  retries: number;
+  retryDelay: number;
+  retryMaxDelay: number;
+  redactFields: string[];
+  proxy: string;
+  noProxy: string;
+  caFile: string;
+  insecureSkipVerify: boolean;
+  requestTimeout: number;
+  /** Saved --columns lists: command path ("devices list") -> preset name -> columns */
+  columnPresets: Record<string, Record<string, string[]>>;
+}
+
+interface StoreSchema extends GlobalConfig {
+  profiles: Record<string, Partial<ProfileConfig>>;
+}
+
+/**
+ * Flattened view of the active profile plus the global settings
+ */
+export type ConfigSchema = ProfileConfig & GlobalConfig;
+
+export const DEFAULT_PROFILE = 'default';
+
+const PROFILE_DEFAULTS: ProfileConfig = {
+  realm: '',
+  apiUrl: 'https://api.mydevices.com',
+  authUrl: 'https://auth.mydevices.com',
+  clientId: '',
+  clientSecret: '',
+  accessToken: '',
+  refreshToken: '',
+  expiresAt: 0,
+  refreshExpiresAt: 0,
+  grantType: 'client_credentials',
+  username: '',
+  tokenFile: '',
+  credentialProcess: '',
+  credentialStore: 'plaintext',
+  keyFile: '',
+};
+
+const PROFILE_KEYS = Object.keys(PROFILE_DEFAULTS) as (keyof ProfileConfig)[];
+
+const config = new Conf<StoreSchema>({
   projectName: 'mydevices-cli',
   defaults: {
-    realm: '',
-    apiUrl: 'https://api.mydevices.com',
-    authUrl: 'https://auth.mydevices.com',
     defaultOutput: 'table',
-    clientId: '',
-    clientSecret: '',
-    accessToken: '',
-    refreshToken: '',
-    expiresAt: 0,
+    currentProfile: DEFAULT_PROFILE,
+    retries: 3,
+    retryDelay: 500,
+    retryMaxDelay: 30000,
+    redactFields: [],
+    proxy: '',
+    noProxy: '',
+    caFile: '',
+    insecureSkipVerify: false,
+    requestTimeout: 0,
+    columnPresets: {},
+    profiles: {},
   },
 });
 
+/**
+ * Move settings written by older versions (stored at the top level of the
+ * config file) into the "default" profile.
+ */
+function migrateLegacyConfig(): void {
+  const legacy = config.store as unknown as Record<string, unknown>;
+  const legacyKeys = PROFILE_KEYS.filter((key) => key in legacy);
+  if (legacyKeys.length === 0) return;
+
+  const profiles = config.get('profiles');
+  const migrated: Partial<ProfileConfig> = { ...profiles[DEFAULT_PROFILE] };
+  for (const key of legacyKeys) {
+    if (migrated[key] === undefined) {
+      (migrated as Record<string, unknown>)[key] = legacy[key];
+    }
+    config.delete(key as keyof StoreSchema);
+  }
+
+  config.set('profiles', { ...profiles, [DEFAULT_PROFILE]: migrated });
+}
+
+migrateLegacyConfig();
+
+// Profile selected for this invocation (--profile flag), if any
+let profileOverride: string | undefined;
+
+function isProfileKey(key: string): key is keyof ProfileConfig {
+  return (PROFILE_KEYS as string[]).includes(key);
+}
+
+function readProfile(name: string): ProfileConfig {
+  return { ...PROFILE_DEFAULTS, ...config.get('profiles')[name] };
+}
+
+function writeProfile(name: string, values: Partial<ProfileConfig>): void {
+  const profiles = config.get('profiles');
+  config.set('profiles', {
+    ...profiles,
+    [name]: { ...profiles[name], ...values },
+  });
+}
+
+/**
+ * Select the profile used for the rest of this process.
+ * Takes precedence over MYDEVICES_PROFILE and the stored current profile.
+ */
+export function setActiveProfile(name: string): void {
+  profileOverride = name;
+}
+
+/**
+ * Resolve the active profile: --profile flag, then MYDEVICES_PROFILE,
+ * then the profile selected with "config profiles use".
+ */
+export function getActiveProfile(): string {
+  return profileOverride || process.env.MYDEVICES_PROFILE || config.get('currentProfile') || DEFAULT_PROFILE;
+}
+
 export function getConfig<K extends keyof ConfigSchema>(key: K): ConfigSchema[K] {
-  return config.get(key);
+  if (isProfileKey(key)) {
+    return readProfile(getActiveProfile())[key] as ConfigSchema[K];
+  }
+  return config.get(key as keyof GlobalConfig) as ConfigSchema[K];
 }
 
 export function setConfig<K extends keyof ConfigSchema>(key: K, value: ConfigSchema[K]): void {
-  config.set(key, value);
+  if (isProfileKey(key)) {
+    writeProfile(getActiveProfile(), { [key]: value });
+    return;
+  }
+  config.set(key as keyof GlobalConfig, value as GlobalConfig[keyof GlobalConfig]);
 }
 
 export function getAllConfig(): ConfigSchema {
-  return config.store;
+  const { profiles: _profiles, ...globals } = config.store;
+  return { ...globals, ...readProfile(getActiveProfile()) };
 }
 
 export function clearConfig(): void {
@@ -45,39 +193,134 @@ export function clearConfig(): void {
 }
 
 export function getAuthConfig(): AuthConfig {
+  const profile = readProfile(getActiveProfile());
   return {
-    realm: config.get('realm'),
-    clientId: config.get('clientId'),
-    clientSecret: config.get('clientSecret'),
-    accessToken: config.get('accessToken'),
-    refreshToken: config.get('refreshToken'),
-    expiresAt: config.get('expiresAt'),
+    realm: profile.realm,
+    clientId: profile.clientId,
+    clientSecret: profile.clientSecret,
+    accessToken: profile.accessToken,
+    refreshToken: profile.refreshToken,
+    expiresAt: profile.expiresAt,
+    refreshExpiresAt: profile.refreshExpiresAt,
   };
 }
 
 export function setAuthConfig(auth: Partial<AuthConfig>): void {
-  if (auth.realm !== undefined) config.set('realm', auth.realm);
-  if (auth.clientId !== undefined) config.set('clientId', auth.clientId);
-  if (auth.clientSecret !== undefined) config.set('clientSecret', auth.clientSecret);
-  if (auth.accessToken !== undefined) config.set('accessToken', auth.accessToken);
-  if (auth.refreshToken !== undefined) config.set('refreshToken', auth.refreshToken);
-  if (auth.expiresAt !== undefined) config.set('expiresAt', auth.expiresAt);
+  const values: Partial<ProfileConfig> = {};
+  if (auth.realm !== undefined) values.realm = auth.realm;
+  if (auth.clientId !== undefined) values.clientId = auth.clientId;
+  if (auth.clientSecret !== undefined) values.clientSecret = auth.clientSecret;
+  if (auth.accessToken !== undefined) values.accessToken = auth.accessToken;
+  if (auth.refreshToken !== undefined) values.refreshToken = auth.refreshToken;
+  if (auth.expiresAt !== undefined) values.expiresAt = auth.expiresAt;
+  if (auth.refreshExpiresAt !== undefined) values.refreshExpiresAt = auth.refreshExpiresAt;
+  writeProfile(getActiveProfile(), values);
 }
 
 export function clearAuthConfig(): void {
-  config.set('clientId', '');
-  config.set('clientSecret', '');
-  config.set('accessToken', '');
-  config.set('refreshToken', '');
-  config.set('expiresAt', 0);
-}
-
-export function isAuthenticated(): boolean {
-  const accessToken = config.get('accessToken');
-  const expiresAt = config.get('expiresAt');
-  return !!accessToken && expiresAt > Date.now();
+  writeProfile(getActiveProfile(), {
+    clientId: '',
+    clientSecret: '',
+    accessToken: '',
+    refreshToken: '',
+    expiresAt: 0,
+    refreshExpiresAt: 0,
+    grantType: 'client_credentials',
+    tokenFile: '',
+  });
 }
 
 export function getConfigPath(): string {
   return config.path;
 }
+
+// ============================================================================
+// Profile management
+// ============================================================================
+
+export function listProfiles(): { name: string; profile: ProfileConfig }[] {
+  return Object.keys(config.get('profiles'))
+    .sort()
+    .map((name) => ({ name, profile: readProfile(name) }));
+}
+
+export function profileExists(name: string): boolean {
+  return name in config.get('profiles');
+}
+
+/**
+ * Make a profile the default for future invocations. The default profile
+ * can always be used, even before anything is saved to it.
+ */
+export function useProfile(name: string): void {
+  if (name !== DEFAULT_PROFILE && !profileExists(name)) {
+    throw new Error(`Profile "${name}" does not exist; create it with "mydevices auth login --profile ${name}"`);
+  }
+  config.set('currentProfile', name);
+}
+
+export function renameProfile(from: string, to: string): void {
+  if (!profileExists(from)) {
+    throw new Error(`Profile "${from}" does not exist`);
+  }
+  if (profileExists(to)) {
+    throw new Error(`Profile "${to}" already exists`);
+  }
+
+  const { [from]: profile, ...rest } = config.get('profiles');
+  config.set('profiles', { ...rest, [to]: profile });
+
+  if (config.get('currentProfile') === from) {
+    config.set('currentProfile', to);
+  }
+}
+
+export function deleteProfile(name: string): void {
+  if (!profileExists(name)) {
+    throw new Error(`Profile "${name}" does not exist`);
+  }
+
+  const { [name]: _removed, ...rest } = config.get('profiles');
+  config.set('profiles', rest);
+
+  if (config.get('currentProfile') === name) {
+    config.set('currentProfile', DEFAULT_PROFILE);
+  }
+}
+
+// ============================================================================
+// Column presets
+// ============================================================================
+
+/**
+ * Preset applied to a command when --columns is not given
+ */
+export const DEFAULT_COLUMN_PRESET = 'default';
+
+export function getColumnPreset(command: string, name: string): string[] | undefined {
+  return config.get('columnPresets')[command]?.[name];
+}
+
+export function listColumnPresets(): { command: string; name: string; columns: string[] }[] {
+  return Object.entries(config.get('columnPresets'))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .flatMap(([command, presets]) =>
+      Object.entries(presets).map(([name, columns]) => ({ command, name, columns }))
+    );
+}
+
+export function setColumnPreset(command: string, name: string, columns: string[]): void {
+  const presets = config.get('columnPresets');
+  config.set('columnPresets', { ...presets, [command]: { ...presets[command], [name]: columns } });
+}
+
+export function deleteColumnPreset(command: string, name: string): void {
+  const presets = config.get('columnPresets');
+  if (!presets[command]?.[name]) {
+    throw new Error(`No column preset "${name}" for "${command}"`);
+  }
+
+  const { [name]: _removed, ...rest } = presets[command];
+  const { [command]: _command, ...others } = presets;
+  config.set('columnPresets', Object.keys(rest).length > 0 ? { ...others, [command]: rest } : others);
+}
@@ -0,0 +1,327 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import {
+  getConfig,
+  setConfig,
+  getConfigPath,
+  getActiveProfile,
+  getAuthConfig,
+  setAuthConfig,
+  clearAuthConfig,
+} from './config.js';
+import type { CredentialStoreKind } from './config.js';
+import { CliError } from './errors.js';
+import type { AuthConfig } from '../types/index.js';
+
+const execAsync = promisify(exec);
+
+export interface Credentials {
+  realm: string;
+  clientId: string;
+  clientSecret: string;
+}
+
+export type CredentialSource = 'env' | 'credential_process' | 'encrypted store' | 'config';
+
+export interface ResolvedCredentials extends Credentials {
+  source: CredentialSource;
+}
+
+interface CredentialProvider {
+  source: CredentialSource;
+  resolve(): Promise<Partial<Credentials> | null>;
+}
+
+// Fields never written to the config file when the encrypted store is enabled
+type Secrets = Pick<AuthConfig, 'clientSecret' | 'accessToken' | 'refreshToken'>;
+const SECRET_KEYS: (keyof Secrets)[] = ['clientSecret', 'accessToken', 'refreshToken'];
+
+const CREDENTIAL_PROCESS_TIMEOUT = 30 * 1000;
+
+// ============================================================================
+// Encrypted store
+// ============================================================================
+
+interface EncryptedEntry {
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+type StoreFile = Record<string, EncryptedEntry>;
+
+let passphraseOverride: string | undefined;
+
+/**
+ * Unlock the encrypted store with a passphrase entered interactively
+ */
+export function setStorePassphrase(passphrase: string): void {
+  passphraseOverride = passphrase;
+}
+
+/**
+ * Whether a passphrase or key file is available to unlock the encrypted store
+ */
+export function hasStorePassphrase(): boolean {
+  return !!(passphraseOverride || process.env.MYDEVICES_PASSPHRASE || getKeyFilePath());
+}
+
+export function isEncryptedStore(): boolean {
+  return getConfig('credentialStore') === 'encrypted';
+}
+
+export function getStorePath(): string {
+  return join(dirname(getConfigPath()), 'credentials.enc');
+}
+
+function getKeyFilePath(): string {
+  return process.env.MYDEVICES_KEY_FILE || getConfig('keyFile');
+}
+
+/**
+ * Key material: passphrase entered at login, MYDEVICES_PASSPHRASE, then the key file
+ */
+function getKeyMaterial(): Buffer {
+  const passphrase = passphraseOverride || process.env.MYDEVICES_PASSPHRASE;
+  if (passphrase) {
+    return Buffer.from(passphrase, 'utf8');
+  }
+
+  const keyFile = getKeyFilePath();
+  if (keyFile) {
+    try {
+      return readFileSync(keyFile);
+    } catch (err) {
+      throw new Error(`Cannot read key file ${keyFile}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  throw new CliError(
+    'The encrypted credential store is locked. Set MYDEVICES_PASSPHRASE or MYDEVICES_KEY_FILE ' +
+    '(or run "mydevices config set keyFile <path>").',
+    'auth'
+  );
+}
+
+function readStoreFile(): StoreFile {
+  const path = getStorePath();
+  if (!existsSync(path)) return {};
+  return JSON.parse(readFileSync(path, 'utf8')) as StoreFile;
+}
+
+function writeStoreFile(store: StoreFile): void {
+  writeFileSync(getStorePath(), JSON.stringify(store, null, 2), { mode: 0o600 });
+}
+
+/**
+ * AES-256-GCM with a key derived from the passphrase by scrypt.
+ * Each entry has its own salt, so profiles can use different passphrases.
+ */
+function encryptSecrets(secrets: Partial<Secrets>): EncryptedEntry {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = scryptSync(getKeyMaterial(), salt, 32);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final()]);
+
+  return {
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+function decryptSecrets(entry: EncryptedEntry): Partial<Secrets> {
+  const key = scryptSync(getKeyMaterial(), Buffer.from(entry.salt, 'base64'), 32);
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(entry.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(entry.tag, 'base64'));
+
+  try {
+    const data = Buffer.concat([decipher.update(Buffer.from(entry.data, 'base64')), decipher.final()]);
+    return JSON.parse(data.toString('utf8')) as Partial<Secrets>;
+  } catch {
+    throw new CliError('Cannot unlock the encrypted credential store: wrong passphrase or key file.', 'auth');
+  }
+}
+
+function readSecrets(profile: string): Partial<Secrets> {
+  const entry = readStoreFile()[profile];
+  return entry ? decryptSecrets(entry) : {};
+}
+
+function writeSecrets(profile: string, secrets: Partial<Secrets>): void {
+  const store = readStoreFile();
+  store[profile] = encryptSecrets({ ...readSecrets(profile), ...secrets });
+  writeStoreFile(store);
+}
+
+/**
+ * Drop a profile's entry from the encrypted store (no passphrase needed)
+ */
+export function removeStoredSecrets(profile: string = getActiveProfile()): void {
+  const store = readStoreFile();
+  if (!(profile in store)) return;
+  delete store[profile];
+  writeStoreFile(store);
+}
+
+export function renameStoredSecrets(from: string, to: string): void {
+  const store = readStoreFile();
+  if (!(from in store)) return;
+  store[to] = store[from];
+  delete store[from];
+  writeStoreFile(store);
+}
+
+// ============================================================================
+// Stored auth state
+// ============================================================================
+
+/**
+ * Read the active profile's auth state, decrypting secrets when the
+ * encrypted store is enabled
+ */
+export function loadAuth(): AuthConfig {
+  const auth = getAuthConfig();
+  if (!isEncryptedStore()) return auth;
+  return { ...auth, ...readSecrets(getActiveProfile()) };
+}
+
+/**
+ * Save auth state for the active profile. With the encrypted store enabled,
+ * secrets go to the store and are blanked in the config file.
+ */
+export function saveAuth(values: Partial<AuthConfig>): void {
+  if (!isEncryptedStore()) {
+    setAuthConfig(values);
+    return;
+  }
+
+  const secrets: Partial<Secrets> = {};
+  const plain: Partial<AuthConfig> = { ...values };
+  for (const key of SECRET_KEYS) {
+    if (values[key] !== undefined) {
+      secrets[key] = values[key];
+      plain[key] = '';
+    }
+  }
+
+  if (Object.keys(secrets).length > 0) {
+    writeSecrets(getActiveProfile(), secrets);
+  }
+  setAuthConfig(plain);
+}
+
+export function clearAuth(): void {
+  clearAuthConfig();
+  removeStoredSecrets();
+}
+
+/**
+ * Switch where the active profile keeps its secrets, moving any that are
+ * already stored
+ */
+export function setCredentialStore(kind: CredentialStoreKind): void {
+  if (kind === getConfig('credentialStore')) return;
+
+  const auth = loadAuth();
+  const secrets: Partial<Secrets> = {};
+  for (const key of SECRET_KEYS) {
+    if (auth[key]) secrets[key] = auth[key];
+  }
+
+  setConfig('credentialStore', kind);
+  saveAuth(secrets);
+  if (kind === 'plaintext') {
+    removeStoredSecrets();
+  }
+}
+
+// ============================================================================
+// Provider chain
+// ============================================================================
+
+const envProvider: CredentialProvider = {
+  source: 'env',
+  async resolve() {
+    const clientId = process.env.MYDEVICES_CLIENT_ID;
+    const clientSecret = process.env.MYDEVICES_CLIENT_SECRET;
+    if (!clientId || !clientSecret) return null;
+    return { realm: process.env.MYDEVICES_REALM, clientId, clientSecret };
+  },
+};
+
+/**
+ * Run the profile's credential_process command, which must print
+ * {"clientId": "...", "clientSecret": "...", "realm": "..."} (realm optional)
+ */
+const credentialProcessProvider: CredentialProvider = {
+  source: 'credential_process',
+  async resolve() {
+    const command = getConfig('credentialProcess');
+    if (!command) return null;
+
+    let stdout: string;
+    try {
+      ({ stdout } = await execAsync(command, { timeout: CREDENTIAL_PROCESS_TIMEOUT }));
+    } catch (err) {
+      throw new Error(`credential_process failed: ${err instanceof Error ? err.message : err}`);
+    }
+
+    let parsed: Record<string, string>;
+    try {
+      parsed = JSON.parse(stdout);
+    } catch {
+      throw new Error('credential_process did not print valid JSON');
+    }
+
+    return {
+      realm: parsed.realm,
+      clientId: parsed.clientId ?? parsed.client_id,
+      clientSecret: parsed.clientSecret ?? parsed.client_secret,
+    };
+  },
+};
+
+const storedProvider: CredentialProvider = {
+  get source(): CredentialSource {
+    return isEncryptedStore() ? 'encrypted store' : 'config';
+  },
+  async resolve() {
+    const { realm, clientId, clientSecret } = loadAuth();
+    return { realm, clientId, clientSecret };
+  },
+};
+
+/**
+ * Resolve client credentials from the first source that has them:
+ * environment variables, the profile's credential_process, then the
+ * credentials saved by "auth login". The realm falls back to the profile's.
+ */
+export async function resolveCredentials(
+  options: { includeStored?: boolean } = {}
+): Promise<ResolvedCredentials | null> {
+  const providers = [envProvider, credentialProcessProvider];
+  if (options.includeStored !== false) {
+    providers.push(storedProvider);
+  }
+
+  for (const provider of providers) {
+    const credentials = await provider.resolve();
+    if (credentials?.clientId && credentials.clientSecret) {
+      return {
+        realm: credentials.realm || getConfig('realm'),
+        clientId: credentials.clientId,
+        clientSecret: credentials.clientSecret,
+        source: provider.source,
+      };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,116 @@
+import { apiGet, apiPost } from './api.js';
+import { cachedApiGet } from './cache.js';
+import { CliError } from './errors.js';
+import { getCodecsPath, getTemplatesPath } from './paths.js';
+import type { Device, DeviceTemplate, EncodeRequest, EncodeResponse, TemplateChannel } from '../types/index.js';
+
+/**
+ * A command checked against the device's template and encoded by its codec,
+ * ready to send
+ */
+export interface Downlink {
+  device: Device;
+  channel: number;
+  /** Channel name from the template */
+  channelName?: string;
+  value: unknown;
+  codec?: string;
+  payload?: EncodeResponse['payload'];
+  /** Checks that failed under --force, or that couldn't be made */
+  warnings: string[];
+}
+
+export interface DownlinkOptions {
+  /** Channel number or name */
+  channel: string;
+  value: unknown;
+  /** Report failed checks as warnings instead of errors */
+  force?: boolean;
+}
+
+function isCommandable(channel: TemplateChannel): boolean {
+  return (channel.data?.commands?.length ?? 0) > 0;
+}
+
+function findChannel(channels: TemplateChannel[], spec: string): TemplateChannel | undefined {
+  const wanted = spec.trim().toLowerCase();
+  return channels.find((c) => String(c.channel) === wanted) ?? channels.find((c) => c.name.toLowerCase() === wanted);
+}
+
+function looksLikeJson(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    return typeof JSON.parse(value) !== 'string';
+  } catch {
+    return false;
+  }
+}
+
+function describeChannels(channels: TemplateChannel[]): string {
+  return channels.length > 0 ? channels.map((c) => `${c.channel} (${c.name})`).join(', ') : 'none';
+}
+
+/**
+ * Check a command before it is sent: the channel must be one the device's
+ * template accepts commands on, and the template's codec must encode the
+ * value. The encoded payload is returned as a preview. With `force`, failed
+ * checks become warnings; a channel that isn't in the template must then be
+ * given by number.
+ */
+export async function prepareDownlink(deviceId: string, options: DownlinkOptions): Promise<Downlink> {
+  const warnings: string[] = [];
+  const check = (message: string): void => {
+    if (!options.force) throw new CliError(`${message}; pass --force to send it anyway`, 'validation');
+    warnings.push(message);
+  };
+
+  const device = await apiGet<Device>(`/v1.0/admin/things/${deviceId}`);
+  const template = device.device_type_id
+    ? await cachedApiGet<DeviceTemplate>('templates', `${getTemplatesPath()}/${device.device_type_id}`)
+    : undefined;
+  if (!template) {
+    check('The device has no template to check the command against');
+  }
+
+  const channels = template?.channels ?? [];
+  const commandable = channels.filter(isCommandable);
+  const match = findChannel(channels, options.channel);
+  if (template && !match) {
+    check(`Channel ${options.channel} is not in template ${template.name}; commandable channels: ${describeChannels(commandable)}`);
+  } else if (match && !isCommandable(match)) {
+    check(`Channel ${match.channel} (${match.name}) does not accept commands; commandable channels: ${describeChannels(commandable)}`);
+  }
+
+  const channel = parseInt(match?.channel ?? options.channel, 10);
+  if (isNaN(channel)) {
+    throw new CliError(`Unknown channel "${options.channel}"; give a channel number`, 'validation');
+  }
+
+  const downlink: Downlink = { device, channel, channelName: match?.name, value: options.value, codec: template?.codec, warnings };
+  if (!template?.codec) {
+    if (template) warnings.push(`Template ${template.name} has no codec, so the payload can't be previewed`);
+    return downlink;
+  }
+
+  const body: EncodeRequest = { channel, value: options.value };
+  const encoded = await apiPost<EncodeResponse>(
+    `${getCodecsPath()}/${template.codec}/encode`,
+    body as unknown as Record<string, unknown>,
+    { retry: true } // stateless test run, safe to repeat
+  );
+  if (encoded.error) {
+    const hint = looksLikeJson(options.value) ? ` (--value-json sends ${options.value} as JSON rather than text)` : '';
+    check(`Codec ${template.codec} could not encode the value: ${encoded.error}${hint}`);
+  } else if (!encoded.payload) {
+    check(`Codec ${template.codec} produced no payload for channel ${channel}`);
+  }
+  downlink.payload = encoded.payload;
+  return downlink;
+}
+
+/**
+ * Send a prepared command
+ */
+export async function sendDownlink(downlink: Downlink): Promise<void> {
+  await apiPost(`/v1.0/admin/things/${downlink.device.id}/cmd`, { channel: downlink.channel, value: downlink.value });
+}
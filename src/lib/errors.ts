@@ -0,0 +1,170 @@
+import axios from 'axios';
+
+/**
+ * Process exit codes, one per class of failure. Scripts can rely on these.
+ */
+export const ExitCode = {
+  GENERAL: 1,
+  AUTH: 2,
+  PERMISSION: 3,
+  NOT_FOUND: 4,
+  VALIDATION: 5,
+  NETWORK: 6,
+  PARTIAL_FAILURE: 7,
+} as const;
+
+export type ErrorKind =
+  | 'general'
+  | 'auth'
+  | 'permission'
+  | 'not_found'
+  | 'validation'
+  | 'network'
+  | 'server'
+  | 'partial_failure';
+
+const EXIT_CODES: Record<ErrorKind, number> = {
+  general: ExitCode.GENERAL,
+  auth: ExitCode.AUTH,
+  permission: ExitCode.PERMISSION,
+  not_found: ExitCode.NOT_FOUND,
+  validation: ExitCode.VALIDATION,
+  network: ExitCode.NETWORK,
+  server: ExitCode.GENERAL,
+  partial_failure: ExitCode.PARTIAL_FAILURE,
+};
+
+/**
+ * An error with a known kind, and so a stable exit code
+ */
+export class CliError extends Error {
+  readonly kind: ErrorKind;
+
+  constructor(message: string, kind: ErrorKind = 'general') {
+    super(message);
+    this.name = 'CliError';
+    this.kind = kind;
+  }
+
+  get exitCode(): number {
+    return EXIT_CODES[this.kind];
+  }
+}
+
+export interface ApiErrorDetails {
+  status?: number;
+  code?: string;
+  serverMessage?: string;
+  method?: string;
+  path?: string;
+  body?: unknown;
+}
+
+/**
+ * A failed API request, with the details the server sent back
+ */
+export class ApiError extends CliError {
+  readonly status?: number;
+  readonly code?: string;
+  readonly serverMessage?: string;
+  readonly method?: string;
+  readonly path?: string;
+  readonly body?: unknown;
+
+  constructor(message: string, kind: ErrorKind, details: ApiErrorDetails = {}) {
+    super(message, kind);
+    this.name = 'ApiError';
+    this.status = details.status;
+    this.code = details.code;
+    this.serverMessage = details.serverMessage;
+    this.method = details.method;
+    this.path = details.path;
+    this.body = details.body;
+  }
+}
+
+function kindForStatus(status: number): ErrorKind {
+  if (status === 401) return 'auth';
+  if (status === 403) return 'permission';
+  if (status === 404) return 'not_found';
+  if (status === 400 || status === 409 || status === 422) return 'validation';
+  if (status === 408) return 'network';
+  if (status >= 500) return 'server';
+  return 'general';
+}
+
+function messageForStatus(status: number, serverMessage?: string): string {
+  switch (status) {
+    case 401:
+      return 'Authentication failed. Run "mydevices auth login" to re-authenticate.';
+    case 403:
+      return 'Permission denied. You do not have access to this resource.';
+    case 404:
+      return 'Resource not found.';
+    default:
+      return serverMessage || `API error: ${status}`;
+  }
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Convert an axios failure into an ApiError. Other errors are returned as-is.
+ */
+export function toApiError(err: unknown, kind?: ErrorKind): unknown {
+  if (!axios.isAxiosError(err)) return err;
+
+  const method = err.config?.method?.toUpperCase();
+  const path = err.config?.url;
+
+  if (!err.response) {
+    return new ApiError(`Network error: ${err.message}`, kind ?? 'network', {
+      code: err.code,
+      method,
+      path,
+    });
+  }
+
+  const { status, data } = err.response;
+  const body = data as Record<string, unknown> | undefined;
+  const serverMessage =
+    asString(body?.message) || asString(body?.error_description) || asString(body?.error);
+  const code = asString(body?.code) || asString(body?.error);
+
+  return new ApiError(messageForStatus(status, serverMessage), kind ?? kindForStatus(status), {
+    status,
+    code,
+    serverMessage,
+    method,
+    path,
+    body: data,
+  });
+}
+
+export function getExitCode(err: unknown): number {
+  return err instanceof CliError ? err.exitCode : ExitCode.GENERAL;
+}
+
+/**
+ * Machine-readable form of an error, written to stderr in JSON mode
+ */
+export function errorToJson(err: unknown, fallback: string): Record<string, unknown> {
+  const json: Record<string, unknown> = {
+    message: err instanceof Error ? err.message : fallback,
+    kind: err instanceof CliError ? err.kind : 'general',
+    exitCode: getExitCode(err),
+  };
+
+  if (err instanceof ApiError) {
+    if (err.status !== undefined) json.status = err.status;
+    if (err.code !== undefined) json.code = err.code;
+    if (err.serverMessage !== undefined) json.serverMessage = err.serverMessage;
+    if (err.method !== undefined) json.method = err.method;
+    if (err.path !== undefined) json.path = err.path;
+    if (err.body !== undefined) json.body = err.body;
+  }
+
+  return json;
+}
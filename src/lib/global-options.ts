@@ -0,0 +1,275 @@
+import { Command, Option, InvalidArgumentError } from 'commander';
+import chalk from 'chalk';
+import { setActiveProfile, getColumnPreset, OUTPUT_FORMATS, DEFAULT_COLUMN_PRESET } from './config.js';
+import type { OutputFormat } from './config.js';
+import { parseQuery } from './query.js';
+
+/**
+ * Values of the global options for the current invocation
+ */
+export interface RuntimeOptions {
+  profile?: string;
+  retries?: number;
+  timeout?: number;
+  record?: string;
+  replay?: string;
+  trace?: string;
+  /** false with --no-cache */
+  cache?: boolean;
+  refresh?: boolean;
+  outputFormat?: OutputFormat;
+  /** Dotted field paths from --columns or the command's saved preset */
+  columns?: string[];
+  sortBy?: SortSpec;
+  /** JMESPath expression from --query */
+  query?: string;
+  /** Go-style line template from --format */
+  format?: string;
+  /** Never prompt or animate, even on a terminal */
+  nonInteractive?: boolean;
+  /** Answer yes to confirmation prompts */
+  yes?: boolean;
+  /** Suppress spinners and status messages */
+  quiet?: boolean;
+  /** false with --no-color */
+  color?: boolean;
+  /** Seconds between runs with --watch (set by --until too) */
+  watch?: number;
+  /** JMESPath condition that ends --watch */
+  until?: string;
+  /** Command path being run, e.g. "devices list" */
+  command?: string;
+  /** --json on the command being run, for commands that have it */
+  json?: boolean;
+}
+
+export interface SortSpec {
+  field: string;
+  descending: boolean;
+}
+
+let runtimeOptions: RuntimeOptions = {};
+
+// Option instances created by registerGlobalOptions, used to tell them apart
+// from command-local options that share an attribute name
+const globalOptionInstances = new WeakSet<Option>();
+
+function parseNonNegativeInt(value: string): number {
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed < 0 || String(parsed) !== value.trim()) {
+    throw new InvalidArgumentError('Must be a non-negative integer.');
+  }
+  return parsed;
+}
+
+/**
+ * Parse a comma-separated --columns list
+ */
+export function parseColumnList(value: string): string[] {
+  const columns = value.split(',').map((c) => c.trim()).filter(Boolean);
+  if (columns.length === 0) {
+    throw new InvalidArgumentError('Expected a comma-separated list of fields.');
+  }
+  return columns;
+}
+
+function parseSortSpec(value: string): SortSpec {
+  const match = value.trim().match(/^([^:]+?)(?::(asc|desc))?$/i);
+  if (!match) {
+    throw new InvalidArgumentError('Expected <field> or <field>:desc.');
+  }
+  return { field: match[1], descending: match[2]?.toLowerCase() === 'desc' };
+}
+
+function parseExpressionOption(value: string): string {
+  try {
+    parseQuery(value);
+  } catch (err) {
+    throw new InvalidArgumentError((err as Error).message.replace(/^Invalid --query: /, ''));
+  }
+  return value;
+}
+
+const DEFAULT_WATCH_INTERVAL = 2;
+const MIN_WATCH_INTERVAL = 0.5;
+
+function parseWatchInterval(value: string): number {
+  const seconds = Number(value);
+  if (value.trim() === '' || !Number.isFinite(seconds) || seconds < MIN_WATCH_INTERVAL) {
+    throw new InvalidArgumentError(`Must be a number of seconds (at least ${MIN_WATCH_INTERVAL}).`);
+  }
+  return seconds;
+}
+
+/**
+ * Definitions of the options accepted by every command
+ */
+function createGlobalOptions(): Option[] {
+  return [
+    new Option('--profile <name>', 'Configuration profile to use (env: MYDEVICES_PROFILE)'),
+    new Option('--retries <count>', 'Retry transient API failures up to <count> times').argParser(parseNonNegativeInt),
+    new Option('--timeout <ms>', 'Per-request timeout in milliseconds').argParser(parseNonNegativeInt),
+    new Option('--record <file>', 'Record API traffic to a cassette file (env: MYDEVICES_RECORD)'),
+    new Option('--replay <file>', 'Serve API responses from a cassette file, offline (env: MYDEVICES_REPLAY)'),
+    new Option('--trace <file>', 'Write a redacted HAR (or .ndjson) trace of API traffic (env: MYDEVICES_TRACE)'),
+    new Option('--no-cache', 'Bypass the local cache of reference data (env: MYDEVICES_NO_CACHE)'),
+    new Option('--refresh', 'Refetch cached reference data and update the cache'),
+    new Option('-o, --output-format <format>', 'Output format (default: defaultOutput setting)').choices(OUTPUT_FORMATS),
+    new Option('--columns <fields>', 'Table/CSV columns as dotted field paths, or @preset (see "config columns")'),
+    new Option('--sort-by <field>', 'Sort results by a dotted field path; append :desc to reverse').argParser(parseSortSpec),
+    new Option('--query <expression>', 'Filter and reshape results with a JMESPath expression').argParser(parseExpressionOption),
+    new Option('--format <template>', 'Print one line per result from a template, e.g. \'{{.id}}\\t{{.name | upper}}\''),
+    new Option('--non-interactive', 'Never prompt; fail when a value is missing (env: MYDEVICES_NON_INTERACTIVE=1)'),
+    new Option('-y, --yes', 'Answer yes to confirmation prompts'),
+    new Option('-q, --quiet', 'Suppress spinners and status messages'),
+    new Option('--no-color', 'Disable coloured output (env: NO_COLOR)'),
+  ];
+}
+
+// Read-only commands that --watch can re-run
+const WATCH_COMMANDS = new Set(['list', 'get', 'count', 'stats', 'latest', 'readings', 'pings', 'status', 'networks', 'health']);
+
+/**
+ * Options for re-running read-only commands
+ */
+function createWatchOptions(): Option[] {
+  return [
+    new Option('--watch [seconds]', `Re-run every [seconds] (default: ${DEFAULT_WATCH_INTERVAL}) and redraw in place, highlighting changes`)
+      .argParser(parseWatchInterval)
+      .preset(String(DEFAULT_WATCH_INTERVAL)),
+    new Option('--until <expression>', 'Stop watching once a JMESPath condition on the results holds (implies --watch)')
+      .argParser(parseExpressionOption),
+  ];
+}
+
+/**
+ * Copy an option, dropping its short flag when the command already uses it
+ */
+function adaptOption(command: Command, option: Option): Option | null {
+  if (command.options.some((o) => o.long === option.long)) {
+    return null;
+  }
+
+  const shortTaken = option.short && command.options.some((o) => o.short === option.short);
+  const flags = shortTaken ? option.flags.replace(/^-\w,\s*/, '') : option.flags;
+
+  const copy = new Option(flags, option.description);
+  if (option.parseArg) copy.argParser(option.parseArg);
+  if (option.argChoices) copy.choices(option.argChoices);
+  if (option.presetArg !== undefined) copy.preset(option.presetArg);
+  return copy;
+}
+
+function addGlobalOptions(command: Command): void {
+  const watchable = WATCH_COMMANDS.has(command.name());
+  const options = watchable ? [...createGlobalOptions(), ...createWatchOptions()] : createGlobalOptions();
+  for (const option of options) {
+    const adapted = adaptOption(command, option);
+    if (!adapted) continue;
+    globalOptionInstances.add(adapted);
+    command.addOption(adapted);
+  }
+
+  if (command.commands.length > 0) {
+    // Options belong to the command they follow, so a group never consumes
+    // flags meant for one of its subcommands
+    command.enablePositionalOptions();
+  }
+
+  for (const sub of command.commands) {
+    addGlobalOptions(sub);
+  }
+}
+
+/**
+ * Collect global option values from the command chain (innermost wins).
+ * Command-local options with the same name are ignored.
+ */
+function collectGlobalOptions(actionCommand: Command): RuntimeOptions {
+  const values: Record<string, unknown> = {};
+
+  for (let cmd: Command | null = actionCommand; cmd; cmd = cmd.parent) {
+    for (const option of cmd.options) {
+      if (!globalOptionInstances.has(option)) continue;
+      const key = option.attributeName();
+      const value = cmd.getOptionValue(key);
+      // Negated flags (--no-cache) default to true on every command; only a
+      // value given on the command line counts
+      if (cmd.getOptionValueSource(key) === 'default') continue;
+      if (value !== undefined && !(key in values)) {
+        values[key] = value;
+      }
+    }
+  }
+
+  return values as RuntimeOptions;
+}
+
+/**
+ * Space-separated command path without the program name, e.g. "devices list"
+ */
+export function commandPath(command: Command): string {
+  const names: string[] = [];
+  for (let cmd: Command | null = command; cmd?.parent; cmd = cmd.parent) {
+    names.unshift(cmd.name());
+  }
+  return names.join(' ');
+}
+
+/**
+ * Columns for this command: a --columns list or @preset, else its default preset
+ */
+function resolvePresetColumns(command: Command, path: string, value: unknown): string[] | undefined {
+  if (typeof value !== 'string') {
+    return getColumnPreset(path, DEFAULT_COLUMN_PRESET);
+  }
+  if (!value.startsWith('@')) {
+    try {
+      return parseColumnList(value);
+    } catch (err) {
+      command.error(`error: option '--columns <fields>' ${(err as Error).message}`);
+    }
+  }
+
+  const preset = getColumnPreset(path, value.slice(1));
+  if (!preset) {
+    command.error(`error: no column preset "${value.slice(1)}" for "${path}" (see "mydevices config columns list")`);
+  }
+  return preset;
+}
+
+/**
+ * Register the global options on the program and every subcommand, and
+ * apply their values before each command runs.
+ * Must be called after all commands have been added.
+ */
+export function registerGlobalOptions(program: Command): void {
+  addGlobalOptions(program);
+
+  program.hook('preAction', (_thisCommand, actionCommand) => {
+    runtimeOptions = collectGlobalOptions(actionCommand);
+    runtimeOptions.json = actionCommand.getOptionValue('json');
+    runtimeOptions.command = commandPath(actionCommand);
+
+    if (runtimeOptions.color === false || process.env.NO_COLOR) {
+      chalk.level = 0;
+    }
+
+    if (runtimeOptions.profile) {
+      setActiveProfile(runtimeOptions.profile);
+    }
+
+    runtimeOptions.columns = resolvePresetColumns(actionCommand, runtimeOptions.command, runtimeOptions.columns);
+
+    if (runtimeOptions.until !== undefined && runtimeOptions.watch === undefined) {
+      runtimeOptions.watch = DEFAULT_WATCH_INTERVAL;
+    }
+  });
+}
+
+/**
+ * Get the global option values for this invocation
+ */
+export function getRuntimeOptions(): RuntimeOptions {
+  return runtimeOptions;
+}
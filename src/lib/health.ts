@@ -0,0 +1,260 @@
+import { InvalidArgumentError } from 'commander';
+import { apiGet } from './api.js';
+import { cachedApiGet } from './cache.js';
+import { CliError } from './errors.js';
+import { paginate } from './paginate.js';
+import { getTemplatesPath } from './paths.js';
+import { runPool } from './pool.js';
+import type { Company, Device, DeviceReading, DeviceTemplate, Location } from '../types/index.js';
+
+export const HEALTH_STATES = ['online', 'late', 'offline', 'unknown'] as const;
+export type HealthState = (typeof HEALTH_STATES)[number];
+
+export const DEFAULT_LATE_FACTOR = 2;
+export const DEFAULT_OFFLINE_FACTOR = 6;
+
+// Devices requested per page while listing the fleet
+const DEVICE_PAGE_SIZE = 100;
+
+// Order devices are listed in: the ones needing attention first
+const STATE_ORDER: Record<HealthState, number> = { offline: 0, late: 1, unknown: 2, online: 3 };
+
+export interface HealthOptions {
+  locationId?: string;
+  companyId?: string;
+  /** Late once the latest reading is older than this many broadcast intervals */
+  lateFactor: number;
+  /** Offline once the latest reading is older than this many broadcast intervals */
+  offlineFactor: number;
+  /** Broadcast interval (minutes) for templates without one */
+  defaultInterval?: number;
+  concurrency: number;
+  /** Called as each device's latest reading is fetched */
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface DeviceHealth {
+  id: string;
+  name: string;
+  hardwareId?: string;
+  locationId?: string;
+  location?: string;
+  companyId?: string;
+  company?: string;
+  state: HealthState;
+  /** Time of the latest reading, null if the device never reported */
+  lastReading: string | null;
+  ageMinutes: number | null;
+  /** Broadcast interval from the device's template */
+  intervalMinutes: number | null;
+  /** Why the state is unknown, or that the device never reported */
+  reason?: string;
+}
+
+export type HealthCounts = Record<HealthState | 'total', number>;
+
+export interface HealthGroup extends HealthCounts {
+  id: string | null;
+  name: string;
+}
+
+export interface HealthReport {
+  checkedAt: string;
+  summary: HealthCounts;
+  byLocation: HealthGroup[];
+  byCompany: HealthGroup[];
+  devices: DeviceHealth[];
+}
+
+/**
+ * Parse a positive number option such as --late-factor or --default-interval
+ */
+export function parsePositiveNumber(value: string): number {
+  const parsed = Number(value.trim());
+  if (value.trim() === '' || !Number.isFinite(parsed) || parsed <= 0) {
+    throw new InvalidArgumentError('Must be a positive number.');
+  }
+  return parsed;
+}
+
+/**
+ * Parse a comma-separated --state list
+ */
+export function parseHealthStates(value: string): HealthState[] {
+  const states = value.split(',').map((s) => s.trim().toLowerCase()).filter(Boolean);
+  const unknown = states.filter((s) => !(HEALTH_STATES as readonly string[]).includes(s));
+  if (states.length === 0 || unknown.length > 0) {
+    throw new InvalidArgumentError(`Expected a comma-separated list of: ${HEALTH_STATES.join(', ')}.`);
+  }
+  return [...new Set(states)] as HealthState[];
+}
+
+/**
+ * A template's broadcast_interval meta value, in minutes
+ */
+export function getBroadcastInterval(template: DeviceTemplate): number | undefined {
+  const value = template.meta?.find((m) => m.key === 'broadcast_interval')?.value;
+  const minutes = value !== undefined ? parseFloat(value) : NaN;
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : undefined;
+}
+
+/**
+ * Class a device by the age of its latest reading, measured in broadcast
+ * intervals. A device that never reported is offline; without an interval
+ * to compare with, the state is unknown.
+ */
+export function classifyHealth(
+  ageMinutes: number | null,
+  intervalMinutes: number | null,
+  options: Pick<HealthOptions, 'lateFactor' | 'offlineFactor'>
+): HealthState {
+  if (ageMinutes === null) return 'offline';
+  if (intervalMinutes === null) return 'unknown';
+  if (ageMinutes > intervalMinutes * options.offlineFactor) return 'offline';
+  if (ageMinutes > intervalMinutes * options.lateFactor) return 'late';
+  return 'online';
+}
+
+function emptyCounts(): HealthCounts {
+  return { online: 0, late: 0, offline: 0, unknown: 0, total: 0 };
+}
+
+function countStates(devices: DeviceHealth[]): HealthCounts {
+  const counts = emptyCounts();
+  for (const device of devices) {
+    counts[device.state]++;
+    counts.total++;
+  }
+  return counts;
+}
+
+/**
+ * Counts per group, most offline devices first
+ */
+function groupHealth(devices: DeviceHealth[], key: 'location' | 'company'): HealthGroup[] {
+  const groups = new Map<string | null, DeviceHealth[]>();
+  for (const device of devices) {
+    const id = (key === 'location' ? device.locationId : device.companyId) ?? null;
+    groups.set(id, [...(groups.get(id) ?? []), device]);
+  }
+  return [...groups.entries()]
+    .map(([id, members]) => ({ id, name: members[0][key] ?? id ?? `(no ${key})`, ...countStates(members) }))
+    .sort((a, b) => b.offline - a.offline || b.late - a.late || a.name.localeCompare(b.name));
+}
+
+/**
+ * Broadcast intervals (minutes) by template ID; templates that can't be
+ * read or have no interval are left out
+ */
+async function getBroadcastIntervals(templateIds: string[]): Promise<Map<string, number>> {
+  const intervals = new Map<string, number>();
+  for (const id of templateIds) {
+    try {
+      const interval = getBroadcastInterval(await cachedApiGet<DeviceTemplate>('templates', `${getTemplatesPath()}/${id}`));
+      if (interval !== undefined) intervals.set(id, interval);
+    } catch {
+      // Reported per device as a missing interval
+    }
+  }
+  return intervals;
+}
+
+/**
+ * Names by ID for the locations or companies devices belong to, falling
+ * back to the ID when one can't be read
+ */
+async function getNames(path: string, ids: string[], concurrency: number): Promise<Map<string, string>> {
+  const results = await runPool(ids, (id) => apiGet<Location | Company>(`${path}/${id}`), { concurrency });
+  return new Map(ids.map((id, i) => {
+    const result = results[i];
+    return [id, result.ok && result.value.name ? result.value.name : id];
+  }));
+}
+
+/**
+ * The latest reading, or null for a device that has never reported
+ */
+async function fetchLatest(deviceId: string): Promise<DeviceReading | null> {
+  try {
+    const reading = await apiGet<DeviceReading>(`/v1.0/admin/things/${deviceId}/latest`);
+    return reading?.ts ? reading : null;
+  } catch (err) {
+    if (err instanceof CliError && err.kind === 'not_found') return null;
+    throw err;
+  }
+}
+
+function distinct(values: Array<string | number | undefined>): string[] {
+  return [...new Set(values.filter((v) => v !== undefined && v !== null && v !== '').map(String))];
+}
+
+/**
+ * Check every active device (optionally of one location or company) against
+ * its template's broadcast interval
+ */
+export async function checkFleetHealth(options: HealthOptions): Promise<HealthReport> {
+  const params: Record<string, unknown> = { status: 0 };
+  if (options.locationId) params.location_id = options.locationId;
+
+  const devices: Device[] = [];
+  for await (const device of paginate<Device>('/v1.0/admin/things', params, { pageSize: DEVICE_PAGE_SIZE })) {
+    if (options.companyId && String(device.company_id ?? '') !== options.companyId) continue;
+    devices.push(device);
+  }
+
+  const intervals = await getBroadcastIntervals(distinct(devices.map((d) => d.device_type_id)));
+  const latest = await runPool(devices, (device) => fetchLatest(device.id), {
+    concurrency: options.concurrency,
+    onSettled: (done, total) => options.onProgress?.(done, total),
+  });
+  const locations = await getNames('/v1.0/admin/locations', distinct(devices.map((d) => d.location_id)), options.concurrency);
+  const companies = await getNames('/v1.0/admin/companies', distinct(devices.map((d) => d.company_id)), options.concurrency);
+
+  const now = Date.now();
+  const health = devices.map((device, i): DeviceHealth => {
+    const result = latest[i];
+    const reading = result.ok ? result.value : null;
+    const ageMinutes = reading ? Math.max(0, (now - reading.ts) / 60_000) : null;
+    const intervalMinutes = (device.device_type_id && intervals.get(device.device_type_id)) || options.defaultInterval || null;
+
+    let state = classifyHealth(ageMinutes, intervalMinutes, options);
+    let reason: string | undefined;
+    if (!result.ok) {
+      state = 'unknown';
+      reason = result.error instanceof Error ? result.error.message : 'Failed to fetch the latest reading';
+    } else if (!reading) {
+      reason = 'Never reported';
+    } else if (intervalMinutes === null) {
+      reason = 'No broadcast interval in the device template';
+    }
+
+    const locationId = device.location_id ? String(device.location_id) : undefined;
+    const companyId = device.company_id ? String(device.company_id) : undefined;
+    return {
+      id: device.id,
+      name: device.thing_name,
+      hardwareId: device.hardware_id,
+      locationId,
+      location: locationId ? locations.get(locationId) : undefined,
+      companyId,
+      company: companyId ? companies.get(companyId) : undefined,
+      state,
+      lastReading: reading ? new Date(reading.ts).toISOString() : null,
+      ageMinutes: ageMinutes !== null ? Math.round(ageMinutes) : null,
+      intervalMinutes,
+      ...(reason ? { reason } : {}),
+    };
+  });
+
+  // Oldest first within a state; devices that never reported before any
+  const age = (d: DeviceHealth): number => d.ageMinutes ?? Number.MAX_SAFE_INTEGER;
+  health.sort((a, b) => STATE_ORDER[a.state] - STATE_ORDER[b.state] || age(b) - age(a));
+
+  return {
+    checkedAt: new Date(now).toISOString(),
+    summary: countStates(health),
+    byLocation: groupHealth(health, 'location'),
+    byCompany: groupHealth(health, 'company'),
+    devices: health,
+  };
+}
@@ -0,0 +1,177 @@
+import axios from 'axios';
+import type { AxiosAdapter, AxiosInstance, AxiosRequestConfig, CreateAxiosDefaults } from 'axios';
+import { readFileSync } from 'fs';
+import { rootCertificates } from 'tls';
+import { getConfig } from './config.js';
+import { getRuntimeOptions } from './global-options.js';
+import { CliError, toApiError } from './errors.js';
+import { traceClient } from './trace.js';
+
+/**
+ * Network settings shared by every outbound request
+ */
+export interface HttpSettings {
+  proxy?: string;
+  noProxy: string[];
+  caFile?: string;
+  insecureSkipVerify: boolean;
+  timeout?: number;
+}
+
+/**
+ * Bun-specific fetch options set on each request. A proxy of false disables
+ * Bun's own HTTP(S)_PROXY handling so the settings here are the only source.
+ */
+interface TransportOptions {
+  proxy: string | false;
+  tls?: {
+    ca?: string[];
+    rejectUnauthorized?: boolean;
+  };
+}
+
+// ============================================================================
+// Settings
+// ============================================================================
+
+function firstEnv(...names: string[]): string | undefined {
+  for (const name of names) {
+    const value = process.env[name];
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * Resolve network settings: config values, then the usual proxy env vars.
+ * The --timeout flag overrides requestTimeout; 0 means no timeout.
+ */
+export function getHttpSettings(): HttpSettings {
+  const timeout = getRuntimeOptions().timeout ?? getConfig('requestTimeout');
+  return {
+    proxy: getConfig('proxy') || undefined,
+    noProxy: splitList(getConfig('noProxy') || firstEnv('NO_PROXY', 'no_proxy')),
+    caFile: getConfig('caFile') || undefined,
+    insecureSkipVerify: getConfig('insecureSkipVerify'),
+    timeout: timeout || undefined,
+  };
+}
+
+/**
+ * Whether a host matches a NO_PROXY entry: "*", an exact host, or a domain
+ * suffix ("example.com" and ".example.com" both cover api.example.com).
+ * Entries with a port only match that port.
+ */
+function matchesNoProxy(url: URL, entry: string): boolean {
+  if (entry === '*') return true;
+
+  const [pattern, port] = entry.toLowerCase().replace(/^\*?\./, '').split(':');
+  if (port) {
+    const urlPort = url.port || (url.protocol === 'https:' ? '443' : '80');
+    if (port !== urlPort) return false;
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  return host === pattern || host.endsWith(`.${pattern}`);
+}
+
+/**
+ * Proxy URL to use for a request, or undefined to connect directly
+ */
+export function getProxyForUrl(url: string, settings: HttpSettings = getHttpSettings()): string | undefined {
+  const parsed = new URL(url);
+  const proxy = settings.proxy
+    || (parsed.protocol === 'https:' ? firstEnv('HTTPS_PROXY', 'https_proxy') : undefined)
+    || firstEnv('HTTP_PROXY', 'http_proxy');
+
+  if (!proxy || settings.noProxy.some((entry) => matchesNoProxy(parsed, entry))) {
+    return undefined;
+  }
+  return proxy;
+}
+
+// caFile contents, read once per process
+let caCache: { file: string; pem: string } | null = null;
+
+function readCaFile(file: string): string {
+  if (caCache?.file !== file) {
+    try {
+      caCache = { file, pem: readFileSync(file, 'utf8') };
+    } catch (err) {
+      throw new CliError(`Cannot read CA file ${file}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return caCache.pem;
+}
+
+function getTransportOptions(url: string, settings: HttpSettings): TransportOptions {
+  const options: TransportOptions = { proxy: getProxyForUrl(url, settings) ?? false };
+
+  if (settings.caFile || settings.insecureSkipVerify) {
+    options.tls = {};
+    if (settings.caFile) {
+      // Trusted in addition to the built-in roots, not instead of them
+      options.tls.ca = [...rootCertificates, readCaFile(settings.caFile)];
+    }
+    if (settings.insecureSkipVerify) {
+      options.tls.rejectUnauthorized = false;
+    }
+  }
+  return options;
+}
+
+// ============================================================================
+// Clients
+// ============================================================================
+
+/**
+ * The adapter that actually goes to the network. Bun's fetch handles
+ * proxies (including CONNECT tunnels for HTTPS) and custom CAs.
+ */
+export function getNetworkAdapter(): AxiosAdapter {
+  return axios.getAdapter('fetch');
+}
+
+/**
+ * Create an axios instance that applies the proxy, CA, TLS and timeout
+ * settings and writes to the --trace file. Every outbound request goes
+ * through one of these.
+ */
+export function createHttpClient(defaults: CreateAxiosDefaults = {}): AxiosInstance {
+  const settings = getHttpSettings();
+  const client = axios.create({
+    timeout: settings.timeout,
+    ...defaults,
+    adapter: defaults.adapter ?? getNetworkAdapter(),
+  });
+
+  client.interceptors.request.use((config) => {
+    config.fetchOptions = {
+      ...config.fetchOptions,
+      ...getTransportOptions(client.getUri(config), settings),
+    };
+    return config;
+  });
+
+  traceClient(client);
+  return client;
+}
+
+let defaultClient: AxiosInstance | null = null;
+
+/**
+ * GET an absolute URL outside the myDevices API (release and update manifests)
+ */
+export async function httpGet<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
+  defaultClient ??= createHttpClient();
+  try {
+    const response = await defaultClient.get<T>(url, config);
+    return response.data;
+  } catch (err) {
+    throw toApiError(err);
+  }
+}
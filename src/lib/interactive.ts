@@ -0,0 +1,64 @@
+import ora from 'ora';
+import type { Ora } from 'ora';
+import { confirm } from '@inquirer/prompts';
+import { getRuntimeOptions } from './global-options.js';
+import { CliError } from './errors.js';
+
+/**
+ * Whether prompts and spinners may be used: not with --non-interactive or
+ * MYDEVICES_NON_INTERACTIVE=1, and only when stdin and stdout are terminals
+ */
+export function isInteractive(): boolean {
+  if (getRuntimeOptions().nonInteractive || process.env.MYDEVICES_NON_INTERACTIVE === '1') {
+    return false;
+  }
+  return Boolean(process.stdin.isTTY && process.stdout.isTTY);
+}
+
+export function isQuiet(): boolean {
+  return getRuntimeOptions().quiet === true;
+}
+
+/**
+ * Fail instead of prompting when nobody can answer. `remedy` tells the
+ * user which flag (or variable) supplies the value instead.
+ */
+export function ensureInteractive(what: string, remedy: string): void {
+  if (!isInteractive()) {
+    throw new CliError(`Cannot prompt for ${what} in non-interactive mode; ${remedy}`, 'validation');
+  }
+}
+
+/**
+ * Ask before an action unless --yes was given (globally or as the
+ * command's own -y). Without a terminal the action is refused, not assumed.
+ */
+export async function confirmAction(
+  message: string,
+  options: { yes?: boolean; default?: boolean } = {}
+): Promise<boolean> {
+  if (options.yes || getRuntimeOptions().yes) {
+    return true;
+  }
+  if (!isInteractive()) {
+    throw new CliError(`Confirmation required ("${message}"); pass --yes to proceed in non-interactive mode`, 'validation');
+  }
+  return confirm({ message, default: options.default ?? false });
+}
+
+/**
+ * Start a progress spinner. Nothing is animated without a terminal, and
+ * --quiet also drops the final succeed/fail line.
+ */
+export function startSpinner(text: string): Ora {
+  if (isQuiet()) {
+    return ora({ text, isSilent: true }).start();
+  }
+  if (!isInteractive()) {
+    // A disabled spinner prints its text on start; only the outcome is worth a line
+    const spinner = ora({ isEnabled: false }).start();
+    spinner.text = text;
+    return spinner;
+  }
+  return ora(text).start();
+}
@@ -0,0 +1,95 @@
+import { CliError } from './errors.js';
+
+/**
+ * Claims found in Keycloak access tokens. Only the ones the CLI reads are
+ * typed; everything else is kept as-is.
+ */
+export interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  azp?: string;
+  aud?: string | string[];
+  iat?: number;
+  exp?: number;
+  scope?: string;
+  preferred_username?: string;
+  realm_access?: { roles?: string[] };
+  resource_access?: Record<string, { roles?: string[] }>;
+  [claim: string]: unknown;
+}
+
+export interface DecodedJwt {
+  header: Record<string, unknown>;
+  claims: JwtClaims;
+}
+
+/**
+ * The parts of an access token that matter when debugging permissions
+ */
+export interface TokenInfo {
+  issuer?: string;
+  realm?: string;
+  client?: string;
+  subject?: string;
+  username?: string;
+  roles: string[];
+  scopes: string[];
+  issuedAt?: Date;
+  expiresAt?: Date;
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  const json = Buffer.from(segment, 'base64url').toString('utf8');
+  const value = JSON.parse(json);
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('not a JSON object');
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Decode a JWT without verifying its signature. Only for display: the
+ * server remains the judge of what a token allows.
+ */
+export function decodeJwt(token: string): DecodedJwt {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new CliError('Access token is not a JWT');
+  }
+
+  try {
+    return {
+      header: decodeSegment(parts[0]),
+      claims: decodeSegment(parts[1]) as JwtClaims,
+    };
+  } catch (err) {
+    throw new CliError(`Access token could not be decoded: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+function fromEpochSeconds(value: unknown): Date | undefined {
+  return typeof value === 'number' ? new Date(value * 1000) : undefined;
+}
+
+/**
+ * Summarize decoded claims. Client roles are listed as "client:role".
+ */
+export function describeToken(claims: JwtClaims): TokenInfo {
+  const realmRoles = claims.realm_access?.roles || [];
+  const clientRoles = Object.entries(claims.resource_access || {}).flatMap(([client, access]) =>
+    (access.roles || []).map((role) => `${client}:${role}`)
+  );
+
+  return {
+    issuer: claims.iss,
+    // Keycloak issuers end in /realms/<realm>
+    realm: claims.iss?.match(/\/realms\/([^/]+)\/?$/)?.[1],
+    client: claims.azp,
+    subject: claims.sub,
+    username: claims.preferred_username,
+    roles: [...realmRoles, ...clientRoles],
+    scopes: (claims.scope || '').split(' ').filter(Boolean),
+    issuedAt: fromEpochSeconds(claims.iat),
+    expiresAt: fromEpochSeconds(claims.exp),
+  };
+}
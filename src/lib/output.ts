@@ -1,14 +1,56 @@
 import Table from 'cli-table3';
 import chalk from 'chalk';
 import { getConfig } from './config.js';
+import type { OutputFormat } from './config.js';
+import { getRuntimeOptions } from './global-options.js';
+import { CliError, getExitCode, errorToJson } from './errors.js';
+import { toYaml } from './yaml.js';
+import { parseQuery, runQuery } from './query.js';
+
+type Cell = string | number | boolean | null | undefined;
 
 export function outputJson(data: unknown): void {
   console.log(JSON.stringify(data, null, 2));
 }
 
+/**
+ * Write one record as a single line of newline-delimited JSON
+ */
+export function outputNdjson(item: unknown): void {
+  process.stdout.write(JSON.stringify(item) + '\n');
+}
+
+/**
+ * Output format for this invocation: --json, then -o/--output-format, then
+ * the defaultOutput setting
+ */
+export function getOutputFormat(json?: boolean): OutputFormat {
+  if (json) return 'json';
+  return getRuntimeOptions().outputFormat ?? getConfig('defaultOutput') ?? 'table';
+}
+
+/**
+ * Whether to print JSON (or NDJSON) rather than a human-readable view
+ */
+export function isJsonOutput(json?: boolean): boolean {
+  const format = getOutputFormat(json);
+  return format === 'json' || format === 'ndjson';
+}
+
+/**
+ * Whether a format other than the default table, specific columns, a query
+ * or a line template were requested. Commands
+ * with a custom detail view print it only when this is false and otherwise
+ * hand their data to output().
+ */
+export function isFormattedOutput(json?: boolean): boolean {
+  const { columns, query, format } = getRuntimeOptions();
+  return getOutputFormat(json) !== 'table' || columns !== undefined || query !== undefined || format !== undefined;
+}
+
 export function outputTable(
   headers: string[],
-  rows: (string | number | boolean | null | undefined)[][],
+  rows: Cell[][],
   options?: { footer?: string }
 ): void {
   const table = new Table({
@@ -50,33 +92,404 @@ function formatCell(value: unknown): string {
   return String(value);
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export function output(
-  data: unknown,
-  options: {
-    json?: boolean;
-    tableHeaders?: string[];
-    tableMapper?: (item: any) => (string | number | boolean | null | undefined)[];
-    footer?: string;
+/**
+ * Flatten nested objects into dotted keys; arrays are kept as JSON
+ */
+function flattenRecord(value: unknown, prefix = '', into: Record<string, unknown> = {}): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    into[prefix || 'value'] = Array.isArray(value) ? JSON.stringify(value) : value;
+    return into;
   }
-): void {
-  const useJson = options.json ?? getConfig('defaultOutput') === 'json';
+  for (const [key, item] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (typeof item === 'object' && item !== null && !Array.isArray(item) && Object.keys(item).length > 0) {
+      flattenRecord(item, path, into);
+    } else {
+      into[path] = Array.isArray(item) || (typeof item === 'object' && item !== null) ? JSON.stringify(item) : item;
+    }
+  }
+  return into;
+}
+
+/**
+ * A JSON object or array stored as a string, as device properties are,
+ * parsed so a dotted path can continue into it
+ */
+function parseNested(value: unknown): unknown {
+  if (typeof value !== 'string' || !/^\s*[[{]/.test(value)) return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Read a dotted field path (e.g. properties.foo, tags.0) from a record.
+ * Fields holding stringified JSON are walked into as well.
+ */
+export function getField(item: unknown, path: string): unknown {
+  let value: unknown = item;
+  for (const key of path.split('.')) {
+    value = parseNested(value);
+    if (typeof value !== 'object' || value === null) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function toCell(value: unknown): Cell {
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+  return value as Cell;
+}
+
+function isMissing(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+/**
+ * Order values for --sort-by: numbers numerically, strings naturally
+ */
+function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(toCell(a)).localeCompare(String(toCell(b)), undefined, { numeric: true });
+}
+
+/**
+ * Apply --sort-by to a list of results. The sort is stable and missing
+ * values stay last in either direction.
+ */
+export function sortResults<T>(items: T[]): T[] {
+  const sortBy = getRuntimeOptions().sortBy;
+  if (!sortBy) return items;
 
-  if (useJson) {
-    outputJson(data);
+  return [...items].sort((a, b) => {
+    const av = getField(a, sortBy.field);
+    const bv = getField(b, sortBy.field);
+    if (isMissing(av) || isMissing(bv)) return Number(isMissing(av)) - Number(isMissing(bv));
+    const order = compareValues(av, bv);
+    return sortBy.descending ? -order : order;
+  });
+}
+
+/**
+ * Every field of every item as headers and rows, in first-seen column order
+ */
+function allFields(items: unknown[]): { headers: string[]; rows: Cell[][] } {
+  const records = items.map((item) => flattenRecord(item));
+  const headers = [...new Set(records.flatMap((record) => Object.keys(record)))];
+  const rows = records.map((record) => headers.map((h) => record[h] as Cell));
+  return { headers, rows };
+}
+
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+
+/**
+ * One CSV or TSV cell: CSV quotes as needed, TSV flattens tabs and newlines
+ */
+export function delimitedCell(value: Cell, delimiter: string): string {
+  const text = value === null || value === undefined ? '' : String(value).replace(ANSI_PATTERN, '');
+  if (delimiter === '\t') {
+    // TSV has no quoting; keep each record on one line
+    return text.replace(/[\t\r\n]+/g, ' ');
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function outputDelimited(headers: string[], rows: Cell[][], delimiter: string): void {
+  const lines = [headers, ...rows].map((row) => row.map((cell) => delimitedCell(cell, delimiter)).join(delimiter));
+  process.stdout.write(lines.join('\n') + '\n');
+}
+
+export function outputYaml(data: unknown): void {
+  console.log(toYaml(data));
+}
+
+/**
+ * Helpers available in --format templates, with their argument counts
+ * (a piped value counts as the last argument, as in Go templates)
+ */
+const TEMPLATE_HELPERS: Record<string, { min: number; max: number; fn: (...args: unknown[]) => unknown }> = {
+  default: { min: 2, max: 2, fn: (fallback, value) => (isMissing(value) ? fallback : value) },
+  upper: { min: 1, max: 1, fn: (value) => templateText(value).toUpperCase() },
+  lower: { min: 1, max: 1, fn: (value) => templateText(value).toLowerCase() },
+  json: { min: 1, max: 1, fn: (value) => JSON.stringify(value ?? null) },
+  join: {
+    min: 2,
+    max: 2,
+    fn: (separator, value) => (Array.isArray(value) ? value.map(templateText).join(templateText(separator)) : templateText(value)),
+  },
+  date: { min: 1, max: 2, fn: (...args) => formatDate(args[args.length - 1], args.length > 1 ? templateText(args[0]) : undefined) },
+};
+
+type TemplateArg = { path: string[] } | { literal: unknown };
+
+interface TemplateCommand {
+  /** Helper to call; a bare value when absent */
+  helper?: string;
+  args: TemplateArg[];
+}
+
+type TemplatePart = string | TemplateCommand[];
+
+function templateText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Format a date (ISO string or epoch milliseconds) in local time with
+ * YYYY, MM, DD, HH, mm and ss placeholders. Other values pass through.
+ */
+function formatDate(value: unknown, layout = 'YYYY-MM-DD HH:mm:ss'): string {
+  if (typeof value !== 'string' && typeof value !== 'number') return templateText(value);
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return templateText(value);
+
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const parts: Record<string, string> = {
+    YYYY: pad(date.getFullYear(), 4),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+  };
+  return layout.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => parts[token]);
+}
+
+function templateError(message: string): CliError {
+  return new CliError(`Invalid --format: ${message}`, 'validation');
+}
+
+/**
+ * Split an action ("{{ ... }}" contents) into words, keeping quoted strings whole
+ */
+function splitAction(action: string): string[] {
+  const word = /"(?:[^"\\]|\\.)*"|\||[^\s|"]+/g;
+  if (action.replace(word, '').trim() !== '') {
+    throw templateError(`unterminated string in {{${action}}}`);
+  }
+  return action.match(word) || [];
+}
+
+function parseTemplateArg(word: string): TemplateArg {
+  if (word === '.') return { path: [] };
+  if (word.startsWith('.')) return { path: word.slice(1).split('.') };
+  if (word.startsWith('"')) {
+    try {
+      return { literal: JSON.parse(word) };
+    } catch {
+      throw templateError(`invalid string ${word}`);
+    }
+  }
+  if (/^-?\d+(\.\d+)?$/.test(word)) return { literal: Number(word) };
+  if (word === 'true' || word === 'false') return { literal: word === 'true' };
+  throw templateError(`unknown value "${word}" (fields start with ".", strings are quoted)`);
+}
+
+function parsePipeline(action: string): TemplateCommand[] {
+  const commands: string[][] = [[]];
+  for (const word of splitAction(action)) {
+    if (word === '|') commands.push([]);
+    else commands[commands.length - 1].push(word);
+  }
+
+  return commands.map((words, position) => {
+    if (words.length === 0) {
+      throw templateError(`empty command in {{${action}}}`);
+    }
+    const [first, ...rest] = words;
+    const helper = TEMPLATE_HELPERS[first];
+    if (!helper) {
+      if (/^[A-Za-z_]/.test(first) && first !== 'true' && first !== 'false') {
+        throw templateError(`unknown helper "${first}" (available: ${Object.keys(TEMPLATE_HELPERS).join(', ')})`);
+      }
+      if (position > 0 || rest.length > 0) {
+        throw templateError(`expected a helper after "${first}" in {{${action}}}`);
+      }
+      return { args: [parseTemplateArg(first)] };
+    }
+
+    const count = rest.length + (position > 0 ? 1 : 0);
+    if (count < helper.min || count > helper.max) {
+      throw templateError(`${first} takes ${helper.min === helper.max ? helper.min : `${helper.min}-${helper.max}`} argument(s)`);
+    }
+    return { helper: first, args: rest.map(parseTemplateArg) };
+  });
+}
+
+/**
+ * Parse a Go-template style line format: text with {{.field}},
+ * {{.nested.path}}, {{.field | helper args}} and {{helper args}} actions.
+ * \t and \n in the text are turned into tabs and newlines.
+ */
+export function parseTemplate(source: string): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  let last = 0;
+
+  for (const match of source.matchAll(/\{\{\s*(.*?)\s*\}\}/g)) {
+    parts.push(source.slice(last, match.index));
+    parts.push(parsePipeline(match[1]));
+    last = match.index! + match[0].length;
+  }
+  parts.push(source.slice(last));
+
+  if (parts.some((part) => typeof part === 'string' && part.includes('{{'))) {
+    throw templateError('unclosed {{ action');
+  }
+
+  return parts.map((part) =>
+    typeof part === 'string'
+      ? part.replace(/\\([tn\\])/g, (_, ch: string) => (ch === 't' ? '\t' : ch === 'n' ? '\n' : '\\'))
+      : part
+  );
+}
+
+export function renderTemplate(parts: TemplatePart[], item: unknown): string {
+  const resolve = (arg: TemplateArg): unknown =>
+    'literal' in arg ? arg.literal : arg.path.length === 0 ? item : getField(item, arg.path.join('.'));
+
+  return parts
+    .map((part) => {
+      if (typeof part === 'string') return part;
+      let value: unknown;
+      part.forEach((command, position) => {
+        const args = command.args.map(resolve);
+        if (position > 0) args.push(value);
+        value = command.helper ? TEMPLATE_HELPERS[command.helper].fn(...args) : args[0];
+      });
+      return templateText(value);
+    })
+    .join('');
+}
+
+interface OutputOptions {
+  json?: boolean;
+  tableHeaders?: string[];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tableMapper?: (item: any) => Cell[];
+  footer?: string;
+  /** Set once --query has reshaped the data, which the mapper no longer fits */
+  queried?: boolean;
+}
+
+/**
+ * Pick the columns for tabular output: --columns (or the command's saved
+ * preset) first, then the command's mapper, then every field for wide and
+ * CSV/TSV. Null when a plain table has no columns to show.
+ */
+function resolveColumns(
+  items: unknown[],
+  format: OutputFormat,
+  options: OutputOptions
+): { headers: string[]; rows: Cell[][] } | null {
+  const selected = getRuntimeOptions().columns;
+  if (selected) {
+    return { headers: selected, rows: items.map((item) => selected.map((path) => toCell(getField(item, path)))) };
+  }
+  if (format !== 'wide' && options.tableHeaders && options.tableMapper) {
+    return { headers: options.tableHeaders, rows: items.map(options.tableMapper) };
+  }
+  return format === 'table' && !options.queried ? null : allFields(items);
+}
+
+/**
+ * Print a query result that is a scalar or a list of scalars one value per
+ * line, the way jq -r would. Returns false for anything that needs a table.
+ */
+function outputPlain(result: unknown): boolean {
+  const values = Array.isArray(result) ? result : [result];
+  if (values.some((value) => typeof value === 'object' && value !== null)) {
+    return false;
+  }
+  for (const value of values) {
+    if (value !== null && value !== undefined) console.log(String(value));
+  }
+  return true;
+}
+
+// Data behind the last output() call or detail view, for --until
+let recordedResult: unknown;
+
+/**
+ * Note the data a command is showing. output() does this itself; commands
+ * with their own detail view call it so --until can test the data.
+ */
+export function recordResult(data: unknown): void {
+  recordedResult = data;
+}
+
+export function getRecordedResult(): unknown {
+  return recordedResult;
+}
+
+/**
+ * Print command results in the requested format, after applying --query
+ * and --sort-by. --format prints one templated line per item instead. Table and CSV/TSV show the mapper's columns when given;
+ * wide (and CSV/TSV without a mapper or after a query) show every field,
+ * with nested objects flattened to dotted column names. --columns (or a
+ * saved preset) replaces the columns of every tabular format.
+ */
+export function output(data: unknown, options: OutputOptions): void {
+  recordResult(data);
+  const format = getOutputFormat(options.json);
+
+  const query = getRuntimeOptions().query;
+  if (query !== undefined) {
+    data = runQuery(parseQuery(query), data);
+    options = { json: options.json, queried: true };
+    if ((format === 'table' || format === 'wide') && outputPlain(data)) {
+      return;
+    }
+  }
+
+  const items = sortResults(Array.isArray(data) ? data : [data]);
+  if (Array.isArray(data)) data = items;
+
+  const template = getRuntimeOptions().format;
+  if (template !== undefined) {
+    const parts = parseTemplate(template);
+    for (const item of items) {
+      console.log(renderTemplate(parts, item));
+    }
     return;
   }
 
-  if (options.tableHeaders && options.tableMapper) {
-    const items = Array.isArray(data) ? data : [data];
-    const rows = items.map(options.tableMapper);
-    outputTable(options.tableHeaders, rows, { footer: options.footer });
-  } else {
-    outputJson(data);
+  const columns = resolveColumns(items, format, options);
+
+  switch (format) {
+    case 'json':
+      outputJson(data);
+      return;
+    case 'ndjson':
+      items.forEach(outputNdjson);
+      return;
+    case 'yaml':
+      outputYaml(data);
+      return;
+    case 'csv':
+    case 'tsv':
+      outputDelimited(columns!.headers, columns!.rows, format === 'csv' ? ',' : '\t');
+      return;
+    case 'wide':
+      outputTable(columns!.headers, columns!.rows, { footer: options.footer });
+      return;
+    default:
+      if (columns) {
+        outputTable(columns.headers, columns.rows, { footer: options.footer });
+      } else {
+        outputJson(data);
+      }
   }
 }
 
+// --quiet drops status lines (success, info); data, warnings and errors still print
+
 export function success(message: string): void {
+  if (getRuntimeOptions().quiet) return;
   console.log(chalk.green('✓'), message);
 }
 
@@ -84,11 +497,25 @@ export function error(message: string): void {
   console.error(chalk.red('✗'), chalk.red('Error:'), message);
 }
 
+/**
+ * Report a failure and exit with the code for its kind (see lib/errors.ts).
+ * In JSON mode the error is written to stderr as a JSON object.
+ */
+export function fail(err: unknown, fallback: string): never {
+  if (isJsonOutput(getRuntimeOptions().json)) {
+    process.stderr.write(JSON.stringify({ error: errorToJson(err, fallback) }) + '\n');
+  } else {
+    error(err instanceof Error ? err.message : fallback);
+  }
+  process.exit(getExitCode(err));
+}
+
 export function warn(message: string): void {
   console.log(chalk.yellow('⚠'), message);
 }
 
 export function info(message: string): void {
+  if (getRuntimeOptions().quiet) return;
   console.log(chalk.blue('ℹ'), message);
 }
 
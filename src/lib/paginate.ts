@@ -0,0 +1,125 @@
+import type { Ora } from 'ora';
+import { apiGet } from './api.js';
+import { isJsonOutput, outputNdjson } from './output.js';
+import { getRuntimeOptions } from './global-options.js';
+import type { ApiResponse, ListOptions } from '../types/index.js';
+
+// Smallest page requested when walking every page with --all
+const MIN_ALL_PAGE_SIZE = 100;
+
+export interface PaginateOptions {
+  /** Results requested per page */
+  pageSize: number;
+  /** First page to fetch (pages are zero-based) */
+  startPage?: number;
+  /** Stop after this many items */
+  maxItems?: number;
+  /** Called after each page with the number of items fetched so far */
+  onPage?: (fetched: number, total?: number) => void;
+}
+
+/**
+ * Normalize a list response; some endpoints return a bare array
+ */
+function toApiResponse<T>(response: ApiResponse<T> | T[]): ApiResponse<T> {
+  return Array.isArray(response) ? { rows: response } : response;
+}
+
+/**
+ * Iterate over every item of a paginated list endpoint, one page at a time.
+ * Only the current page is held in memory.
+ */
+export async function* paginate<T>(
+  path: string,
+  params: Record<string, unknown>,
+  options: PaginateOptions
+): AsyncGenerator<T> {
+  let page = options.startPage ?? 0;
+  let fetched = 0;
+
+  while (true) {
+    const response = toApiResponse(
+      await apiGet<ApiResponse<T> | T[]>(path, { ...params, limit: options.pageSize, page })
+    );
+    const rows = response.rows || [];
+
+    for (const row of rows) {
+      if (options.maxItems !== undefined && fetched >= options.maxItems) return;
+      fetched++;
+      yield row;
+    }
+
+    options.onPage?.(fetched, response.count);
+
+    if (rows.length === 0) return;
+    if (options.maxItems !== undefined && fetched >= options.maxItems) return;
+    if (response.count !== undefined) {
+      if (fetched >= response.count) return;
+    } else if (rows.length < options.pageSize) {
+      // No total to go by; a short page is the last one
+      return;
+    }
+
+    page++;
+  }
+}
+
+function parsePositiveInt(value: string | number | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = parseInt(String(value), 10);
+  if (isNaN(parsed) || parsed < 1) {
+    throw new Error(`${flag} must be a positive integer`);
+  }
+  return parsed;
+}
+
+/**
+ * Fetch a list for a list command: a single page (--limit/--page), or every
+ * page with --all (implied by --max-items).
+ *
+ * With --all in JSON mode the items are streamed to stdout as NDJSON and null
+ * is returned, so large result sets are never held in memory (unless
+ * --sort-by or --query needs them all).
+ */
+export async function fetchList<T>(
+  path: string,
+  params: Record<string, unknown>,
+  options: ListOptions,
+  spinner?: Ora
+): Promise<ApiResponse<T> | null> {
+  const maxItems = parsePositiveInt(options.maxItems, '--max-items');
+
+  if (!options.all && maxItems === undefined) {
+    return toApiResponse(await apiGet<ApiResponse<T> | T[]>(path, params));
+  }
+
+  const baseText = spinner?.text;
+  const items = paginate<T>(path, params, {
+    pageSize: Math.max(parsePositiveInt(params.limit as number, '--limit') ?? 0, MIN_ALL_PAGE_SIZE),
+    maxItems,
+    onPage: (fetched, total) => {
+      if (spinner) {
+        spinner.text = `${baseText} (${fetched}${total !== undefined ? `/${total}` : ''})`;
+      }
+    },
+  });
+
+  // Sorting and queries need every item, so --sort-by and --query collect
+  // instead of streaming; --format lines are printed by output(), and
+  // --watch tests --until against the collected results
+  const { sortBy, query, format, watch } = getRuntimeOptions();
+  if (isJsonOutput(options.json) && !sortBy && query === undefined && format === undefined && watch === undefined) {
+    // Progress would interleave with the stream on a terminal
+    spinner?.stop();
+    for await (const item of items) {
+      outputNdjson(item);
+    }
+    return null;
+  }
+
+  const rows: T[] = [];
+  for await (const item of items) {
+    rows.push(item);
+  }
+  return { count: rows.length, rows };
+}
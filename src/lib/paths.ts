@@ -0,0 +1,17 @@
+import { getConfig } from './config.js';
+
+/**
+ * Get the base path for templates API
+ */
+export function getTemplatesPath(): string {
+  const clientId = getConfig('clientId');
+  return `/v1.1/organizations/${clientId}/applications/${clientId}/things/types`;
+}
+
+/**
+ * Get the base path for codecs API
+ */
+export function getCodecsPath(): string {
+  const clientId = getConfig('clientId');
+  return `/v1.1/organizations/${clientId}/applications/${clientId}/codecs`;
+}
@@ -0,0 +1,111 @@
+import { InvalidArgumentError } from 'commander';
+import { onRateLimited } from './retry.js';
+
+export const DEFAULT_CONCURRENCY = 4;
+export const MAX_CONCURRENCY = 32;
+
+// Successful tasks needed before a slowed-down pool adds a worker back
+const RECOVERY_SUCCESSES = 10;
+
+export type PoolResult<R> =
+  | { ok: true; value: R }
+  | { ok: false; error: unknown };
+
+export interface PoolOptions<T, R> {
+  concurrency: number;
+  /** Called as each task finishes; done counts finished tasks, in any order */
+  onSettled?: (done: number, total: number, item: T, result: PoolResult<R>) => void;
+}
+
+/**
+ * Parse a --concurrency value (1 to MAX_CONCURRENCY)
+ */
+export function parseConcurrency(value: string): number {
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed < 1 || parsed > MAX_CONCURRENCY || String(parsed) !== value.trim()) {
+    throw new InvalidArgumentError(`Must be an integer from 1 to ${MAX_CONCURRENCY}.`);
+  }
+  return parsed;
+}
+
+/**
+ * Run a task for every item, at most `concurrency` at a time. Results come
+ * back in item order whatever order the tasks finish in; a failed task is
+ * recorded, not thrown.
+ *
+ * When the API answers 429 the pool halves its limit and holds new tasks
+ * for the server's Retry-After, then adds workers back one at a time as
+ * tasks keep succeeding.
+ */
+export function runPool<T, R>(
+  items: T[],
+  task: (item: T, index: number) => Promise<R>,
+  options: PoolOptions<T, R>
+): Promise<PoolResult<R>[]> {
+  const maxConcurrency = Math.max(1, options.concurrency);
+  const results: PoolResult<R>[] = new Array(items.length);
+
+  if (items.length === 0) {
+    return Promise.resolve(results);
+  }
+
+  let limit = maxConcurrency;
+  let active = 0;
+  let next = 0;
+  let done = 0;
+  let successes = 0;
+  let pausedUntil = 0;
+  let resumeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const stopListening = onRateLimited((retryAfter) => {
+    limit = Math.max(1, Math.floor(limit / 2));
+    successes = 0;
+    if (retryAfter) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + retryAfter);
+    }
+  });
+
+  return new Promise((resolve) => {
+    const launch = (): void => {
+      while (active < limit && next < items.length) {
+        const wait = pausedUntil - Date.now();
+        if (wait > 0) {
+          resumeTimer ??= setTimeout(() => {
+            resumeTimer = null;
+            launch();
+          }, wait);
+          return;
+        }
+
+        const index = next++;
+        active++;
+        task(items[index], index)
+          .then(
+            (value): PoolResult<R> => ({ ok: true, value }),
+            (error: unknown): PoolResult<R> => ({ ok: false, error })
+          )
+          .then((result) => {
+            results[index] = result;
+            active--;
+            done++;
+
+            if (result.ok && limit < maxConcurrency && ++successes >= RECOVERY_SUCCESSES) {
+              limit++;
+              successes = 0;
+            }
+
+            options.onSettled?.(done, items.length, items[index], result);
+
+            if (done === items.length) {
+              stopListening();
+              resolve(results);
+            } else {
+              launch();
+            }
+          });
+      }
+    };
+
+    launch();
+  });
+}
@@ -0,0 +1,124 @@
+import { CliError } from './errors.js';
+import type { FormSettingsField } from './bulk-import.js';
+
+/**
+ * One property changed by set or unset. `from` is undefined for a property
+ * being added, `to` for one being removed.
+ */
+export interface PropertyChange {
+  key: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+/**
+ * New values checked against a template's form settings. Select values
+ * given by their label are replaced with the value itself.
+ */
+export interface PropertyCheck {
+  values: Record<string, string>;
+  problems: string[];
+}
+
+const NUMBER_TYPES = new Set(['number', 'float', 'double', 'decimal']);
+const INTEGER_TYPES = new Set(['int', 'integer']);
+const BOOLEAN_TYPES = new Set(['bool', 'boolean']);
+
+/**
+ * Split key=value arguments into an object. The first = separates the key,
+ * so values may contain more.
+ */
+export function parseAssignments(assignments: string[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const assignment of assignments) {
+    const eq = assignment.indexOf('=');
+    if (eq <= 0) {
+      throw new CliError(`Expected key=value, got "${assignment}"`, 'validation');
+    }
+    values[assignment.slice(0, eq).trim()] = assignment.slice(eq + 1);
+  }
+  return values;
+}
+
+function describeKeys(fields: FormSettingsField[]): string {
+  return fields.length > 0 ? fields.map((f) => f.key).join(', ') : 'none';
+}
+
+/**
+ * Check one value against its field: select fields take one of their
+ * values (or a value's label), typed inputs a number, integer or boolean
+ */
+function checkValue(field: FormSettingsField, value: string): { value: string; problem?: string } {
+  const label = `${field.key} (${field.label})`;
+  if (value.trim() === '') {
+    return field.required ? { value, problem: `${label} is required and can't be empty` } : { value };
+  }
+
+  if (field.form === 'select' && field.values && field.values.length > 0) {
+    const option =
+      field.values.find((v) => String(v.value) === value) ??
+      field.values.find((v) => v.label.toLowerCase() === value.toLowerCase());
+    if (!option) {
+      const choices = field.values.map((v) => (v.label && v.label !== String(v.value) ? `${v.value} (${v.label})` : v.value));
+      return { value, problem: `${label} must be one of: ${choices.join(', ')}` };
+    }
+    return { value: String(option.value) };
+  }
+
+  const type = (field.type ?? '').toLowerCase();
+  if (NUMBER_TYPES.has(type) && !Number.isFinite(Number(value))) {
+    return { value, problem: `${label} must be a number` };
+  }
+  if (INTEGER_TYPES.has(type) && !/^-?\d+$/.test(value.trim())) {
+    return { value, problem: `${label} must be an integer` };
+  }
+  if (BOOLEAN_TYPES.has(type) && !['true', 'false'].includes(value.toLowerCase())) {
+    return { value, problem: `${label} must be true or false` };
+  }
+  return { value: BOOLEAN_TYPES.has(type) ? value.toLowerCase() : value };
+}
+
+/**
+ * Check values to set against a template's form settings fields
+ */
+export function checkProperties(fields: FormSettingsField[], values: Record<string, string>): PropertyCheck {
+  const checked: Record<string, string> = {};
+  const problems: string[] = [];
+
+  for (const [key, value] of Object.entries(values)) {
+    const field = fields.find((f) => f.key === key);
+    if (!field) {
+      problems.push(`Unknown setting "${key}"; the template's settings are: ${describeKeys(fields)}`);
+      checked[key] = value;
+      continue;
+    }
+    const result = checkValue(field, value);
+    checked[key] = result.value;
+    if (result.problem) problems.push(result.problem);
+  }
+
+  return { values: checked, problems };
+}
+
+/**
+ * Problems with removing properties: required settings can't be unset
+ */
+export function checkUnset(fields: FormSettingsField[], keys: string[]): string[] {
+  return fields
+    .filter((f) => f.required && keys.includes(f.key))
+    .map((f) => `${f.key} (${f.label}) is required and can't be unset`);
+}
+
+/**
+ * Properties added, changed or removed between two versions
+ */
+export function diffProperties(before: Record<string, unknown>, after: Record<string, unknown>): PropertyChange[] {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return keys
+    .filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map((key) => ({
+      key,
+      ...(key in before ? { from: before[key] } : {}),
+      ...(key in after ? { to: after[key] } : {}),
+    }));
+}
@@ -0,0 +1,820 @@
+import { CliError } from './errors.js';
+
+/**
+ * JMESPath (https://jmespath.org) for --query: the full expression grammar
+ * and the standard built-in functions. Parsing follows the reference
+ * implementation's top-down operator precedence parser.
+ */
+
+// ============================================================================
+// Lexer
+// ============================================================================
+
+type TokenType =
+  | 'EOF'
+  | 'UnquotedIdentifier'
+  | 'QuotedIdentifier'
+  | 'Literal'
+  | 'Number'
+  | 'Rbracket'
+  | 'Rparen'
+  | 'Comma'
+  | 'Colon'
+  | 'Rbrace'
+  | 'Current'
+  | 'Expref'
+  | 'Pipe'
+  | 'Or'
+  | 'And'
+  | 'EQ'
+  | 'NE'
+  | 'GT'
+  | 'GTE'
+  | 'LT'
+  | 'LTE'
+  | 'Flatten'
+  | 'Star'
+  | 'Filter'
+  | 'Dot'
+  | 'Not'
+  | 'Lbrace'
+  | 'Lbracket'
+  | 'Lparen';
+
+interface Token {
+  type: TokenType;
+  value?: unknown;
+  start: number;
+}
+
+// How tightly each token binds to the expression on its left
+const BINDING_POWER: Record<TokenType, number> = {
+  EOF: 0,
+  UnquotedIdentifier: 0,
+  QuotedIdentifier: 0,
+  Literal: 0,
+  Number: 0,
+  Rbracket: 0,
+  Rparen: 0,
+  Comma: 0,
+  Colon: 0,
+  Rbrace: 0,
+  Current: 0,
+  Expref: 0,
+  Pipe: 1,
+  Or: 2,
+  And: 3,
+  EQ: 5,
+  NE: 5,
+  GT: 5,
+  GTE: 5,
+  LT: 5,
+  LTE: 5,
+  Flatten: 9,
+  Star: 20,
+  Filter: 21,
+  Dot: 40,
+  Not: 45,
+  Lbrace: 50,
+  Lbracket: 55,
+  Lparen: 60,
+};
+
+const SINGLE_CHAR_TOKENS: Record<string, TokenType> = {
+  '.': 'Dot',
+  '*': 'Star',
+  ',': 'Comma',
+  ':': 'Colon',
+  '{': 'Lbrace',
+  '}': 'Rbrace',
+  ']': 'Rbracket',
+  '(': 'Lparen',
+  ')': 'Rparen',
+  '@': 'Current',
+};
+
+function queryError(message: string, position?: number): CliError {
+  const at = position === undefined ? '' : ` (at position ${position + 1})`;
+  return new CliError(`Invalid --query: ${message}${at}`, 'validation');
+}
+
+/**
+ * Read a delimited string starting at `start`, honouring backslash-escaped delimiters
+ */
+function readDelimited(expression: string, start: number, delimiter: string): { text: string; end: number } {
+  let i = start + 1;
+  while (i < expression.length && expression[i] !== delimiter) {
+    i += expression[i] === '\\' ? 2 : 1;
+  }
+  if (i >= expression.length) {
+    throw queryError(`unterminated ${delimiter} string`, start);
+  }
+  return { text: expression.slice(start + 1, i), end: i + 1 };
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const ch = expression[i];
+    const start = i;
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      while (i < expression.length && /[A-Za-z0-9_]/.test(expression[i])) i++;
+      tokens.push({ type: 'UnquotedIdentifier', value: expression.slice(start, i), start });
+    } else if (SINGLE_CHAR_TOKENS[ch]) {
+      tokens.push({ type: SINGLE_CHAR_TOKENS[ch], start });
+      i++;
+    } else if (/[-0-9]/.test(ch)) {
+      i++;
+      while (i < expression.length && /[0-9]/.test(expression[i])) i++;
+      const text = expression.slice(start, i);
+      if (text === '-') throw queryError('expected a number after "-"', start);
+      tokens.push({ type: 'Number', value: parseInt(text, 10), start });
+    } else if (ch === '[') {
+      if (expression[i + 1] === ']') {
+        tokens.push({ type: 'Flatten', start });
+        i += 2;
+      } else if (expression[i + 1] === '?') {
+        tokens.push({ type: 'Filter', start });
+        i += 2;
+      } else {
+        tokens.push({ type: 'Lbracket', start });
+        i++;
+      }
+    } else if (ch === '"') {
+      const { text, end } = readDelimited(expression, i, '"');
+      try {
+        tokens.push({ type: 'QuotedIdentifier', value: JSON.parse(`"${text}"`), start });
+      } catch {
+        throw queryError('invalid quoted identifier', start);
+      }
+      i = end;
+    } else if (ch === "'") {
+      const { text, end } = readDelimited(expression, i, "'");
+      tokens.push({ type: 'Literal', value: text.replace(/\\'/g, "'"), start });
+      i = end;
+    } else if (ch === '`') {
+      const { text, end } = readDelimited(expression, i, '`');
+      const json = text.replace(/\\`/g, '`').trim();
+      let value: unknown;
+      try {
+        value = JSON.parse(json);
+      } catch {
+        // Older JMESPath allowed unquoted strings in literals
+        value = json;
+      }
+      tokens.push({ type: 'Literal', value, start });
+      i = end;
+    } else if (ch === '|') {
+      const double = expression[i + 1] === '|';
+      tokens.push({ type: double ? 'Or' : 'Pipe', start });
+      i += double ? 2 : 1;
+    } else if (ch === '&') {
+      const double = expression[i + 1] === '&';
+      tokens.push({ type: double ? 'And' : 'Expref', start });
+      i += double ? 2 : 1;
+    } else if (ch === '<' || ch === '>') {
+      const orEqual = expression[i + 1] === '=';
+      const type: TokenType = ch === '<' ? (orEqual ? 'LTE' : 'LT') : orEqual ? 'GTE' : 'GT';
+      tokens.push({ type, start });
+      i += orEqual ? 2 : 1;
+    } else if (ch === '=' && expression[i + 1] === '=') {
+      tokens.push({ type: 'EQ', start });
+      i += 2;
+    } else if (ch === '!') {
+      const notEqual = expression[i + 1] === '=';
+      tokens.push({ type: notEqual ? 'NE' : 'Not', start });
+      i += notEqual ? 2 : 1;
+    } else {
+      throw queryError(`unexpected character "${ch}"`, start);
+    }
+  }
+
+  tokens.push({ type: 'EOF', start: expression.length });
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+type Comparator = 'EQ' | 'NE' | 'GT' | 'GTE' | 'LT' | 'LTE';
+
+const COMPARATORS: TokenType[] = ['EQ', 'NE', 'GT', 'GTE', 'LT', 'LTE'];
+
+export type QueryNode =
+  | { type: 'Field'; name: string }
+  | { type: 'Identity' }
+  | { type: 'Literal'; value: unknown }
+  | { type: 'Index'; index: number }
+  | { type: 'Slice'; start: number | null; stop: number | null; step: number | null }
+  | { type: 'Subexpression' | 'IndexExpression' | 'Pipe' | 'Or' | 'And'; left: QueryNode; right: QueryNode }
+  | { type: 'Projection' | 'ValueProjection'; left: QueryNode; right: QueryNode }
+  | { type: 'FilterProjection'; left: QueryNode; right: QueryNode; condition: QueryNode }
+  | { type: 'Comparator'; op: Comparator; left: QueryNode; right: QueryNode }
+  | { type: 'Flatten' | 'Not' | 'ExpressionReference'; child: QueryNode }
+  | { type: 'MultiSelectList'; items: QueryNode[] }
+  | { type: 'MultiSelectHash'; pairs: { key: string; value: QueryNode }[] }
+  | { type: 'Function'; name: string; args: QueryNode[] };
+
+const IDENTITY: QueryNode = { type: 'Identity' };
+
+function describeToken(type: TokenType): string {
+  const text = Object.keys(SINGLE_CHAR_TOKENS).find((ch) => SINGLE_CHAR_TOKENS[ch] === type);
+  return text ? `"${text}"` : type.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+}
+
+class Parser {
+  private tokens: Token[] = [];
+  private index = 0;
+
+  parse(expression: string): QueryNode {
+    this.tokens = tokenize(expression);
+    this.index = 0;
+    const ast = this.expression(0);
+    if (this.peek() !== 'EOF') {
+      this.unexpected(this.token());
+    }
+    return ast;
+  }
+
+  private token(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private peek(offset = 0): TokenType {
+    return this.token(offset).type;
+  }
+
+  private advance(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private match(type: TokenType): void {
+    if (this.peek() !== type) {
+      this.unexpected(this.token(), type);
+    }
+    this.index++;
+  }
+
+  private unexpected(token: Token, expected?: TokenType): never {
+    const found = token.type === 'EOF' ? 'end of expression' : describeToken(token.type);
+    throw queryError(`unexpected ${found}${expected ? `, expected ${describeToken(expected)}` : ''}`, token.start);
+  }
+
+  private expression(rbp: number): QueryNode {
+    let left = this.nud(this.advance());
+    while (rbp < BINDING_POWER[this.peek()]) {
+      left = this.led(this.advance(), left);
+    }
+    return left;
+  }
+
+  // Tokens that start an expression
+  private nud(token: Token): QueryNode {
+    switch (token.type) {
+      case 'Literal':
+        return { type: 'Literal', value: token.value };
+      case 'UnquotedIdentifier':
+        return { type: 'Field', name: token.value as string };
+      case 'QuotedIdentifier':
+        if (this.peek() === 'Lparen') {
+          throw queryError('quoted identifiers cannot name functions', token.start);
+        }
+        return { type: 'Field', name: token.value as string };
+      case 'Not':
+        return { type: 'Not', child: this.expression(BINDING_POWER.Not) };
+      case 'Star': {
+        const right = this.peek() === 'Rbracket' ? IDENTITY : this.projectionRhs(BINDING_POWER.Star);
+        return { type: 'ValueProjection', left: IDENTITY, right };
+      }
+      case 'Filter':
+        return this.led(token, IDENTITY);
+      case 'Lbrace':
+        return this.multiSelectHash();
+      case 'Flatten': {
+        const left: QueryNode = { type: 'Flatten', child: IDENTITY };
+        return { type: 'Projection', left, right: this.projectionRhs(BINDING_POWER.Flatten) };
+      }
+      case 'Lbracket':
+        if (this.peek() === 'Number' || this.peek() === 'Colon') {
+          return this.projectIfSlice(IDENTITY, this.indexExpression());
+        }
+        if (this.peek() === 'Star' && this.peek(1) === 'Rbracket') {
+          this.index += 2;
+          return { type: 'Projection', left: IDENTITY, right: this.projectionRhs(BINDING_POWER.Star) };
+        }
+        return this.multiSelectList();
+      case 'Current':
+        return IDENTITY;
+      case 'Expref':
+        return { type: 'ExpressionReference', child: this.expression(BINDING_POWER.Expref) };
+      case 'Lparen': {
+        const inner = this.expression(0);
+        this.match('Rparen');
+        return inner;
+      }
+      default:
+        return this.unexpected(token);
+    }
+  }
+
+  // Tokens that continue the expression on their left
+  private led(token: Token, left: QueryNode): QueryNode {
+    switch (token.type) {
+      case 'Dot':
+        if (this.peek() === 'Star') {
+          this.advance();
+          return { type: 'ValueProjection', left, right: this.projectionRhs(BINDING_POWER.Dot) };
+        }
+        return { type: 'Subexpression', left, right: this.dotRhs(BINDING_POWER.Dot) };
+      case 'Pipe':
+        return { type: 'Pipe', left, right: this.expression(BINDING_POWER.Pipe) };
+      case 'Or':
+        return { type: 'Or', left, right: this.expression(BINDING_POWER.Or) };
+      case 'And':
+        return { type: 'And', left, right: this.expression(BINDING_POWER.And) };
+      case 'Lparen': {
+        if (left.type !== 'Field') {
+          this.unexpected(token);
+        }
+        const args: QueryNode[] = [];
+        while (this.peek() !== 'Rparen') {
+          args.push(this.expression(0));
+          if (this.peek() === 'Comma') this.match('Comma');
+        }
+        this.match('Rparen');
+        return { type: 'Function', name: left.name, args };
+      }
+      case 'Filter': {
+        const condition = this.expression(0);
+        this.match('Rbracket');
+        const right = this.peek() === 'Flatten' ? IDENTITY : this.projectionRhs(BINDING_POWER.Filter);
+        return { type: 'FilterProjection', left, right, condition };
+      }
+      case 'Flatten':
+        return {
+          type: 'Projection',
+          left: { type: 'Flatten', child: left },
+          right: this.projectionRhs(BINDING_POWER.Flatten),
+        };
+      case 'Lbracket':
+        if (this.peek() === 'Number' || this.peek() === 'Colon') {
+          return this.projectIfSlice(left, this.indexExpression());
+        }
+        this.match('Star');
+        this.match('Rbracket');
+        return { type: 'Projection', left, right: this.projectionRhs(BINDING_POWER.Star) };
+      default:
+        if (COMPARATORS.includes(token.type)) {
+          return {
+            type: 'Comparator',
+            op: token.type as Comparator,
+            left,
+            right: this.expression(BINDING_POWER[token.type]),
+          };
+        }
+        return this.unexpected(token);
+    }
+  }
+
+  private indexExpression(): QueryNode {
+    if (this.peek() === 'Colon' || this.peek(1) === 'Colon') {
+      return this.sliceExpression();
+    }
+    const node: QueryNode = { type: 'Index', index: this.advance().value as number };
+    this.match('Rbracket');
+    return node;
+  }
+
+  private sliceExpression(): QueryNode {
+    const parts: (number | null)[] = [null, null, null];
+    let part = 0;
+    while (this.peek() !== 'Rbracket') {
+      const token = this.token();
+      if (token.type === 'Colon' && part < 2) {
+        part++;
+        this.advance();
+      } else if (token.type === 'Number') {
+        parts[part] = token.value as number;
+        this.advance();
+      } else {
+        this.unexpected(token);
+      }
+    }
+    this.match('Rbracket');
+    return { type: 'Slice', start: parts[0], stop: parts[1], step: parts[2] };
+  }
+
+  private projectIfSlice(left: QueryNode, right: QueryNode): QueryNode {
+    const indexExpression: QueryNode = { type: 'IndexExpression', left, right };
+    if (right.type === 'Slice') {
+      return { type: 'Projection', left: indexExpression, right: this.projectionRhs(BINDING_POWER.Star) };
+    }
+    return indexExpression;
+  }
+
+  private dotRhs(rbp: number): QueryNode {
+    const next = this.peek();
+    if (next === 'UnquotedIdentifier' || next === 'QuotedIdentifier' || next === 'Star') {
+      return this.expression(rbp);
+    }
+    if (next === 'Lbracket') {
+      this.match('Lbracket');
+      return this.multiSelectList();
+    }
+    if (next === 'Lbrace') {
+      this.match('Lbrace');
+      return this.multiSelectHash();
+    }
+    return this.unexpected(this.token());
+  }
+
+  // What a projection applies to each element: nothing more (identity) when
+  // the next token binds too loosely to belong to it
+  private projectionRhs(rbp: number): QueryNode {
+    const next = this.peek();
+    if (BINDING_POWER[next] < 10) {
+      return IDENTITY;
+    }
+    if (next === 'Lbracket' || next === 'Filter') {
+      return this.expression(rbp);
+    }
+    if (next === 'Dot') {
+      this.match('Dot');
+      return this.dotRhs(rbp);
+    }
+    return this.unexpected(this.token());
+  }
+
+  private multiSelectList(): QueryNode {
+    const items: QueryNode[] = [];
+    while (this.peek() !== 'Rbracket') {
+      items.push(this.expression(0));
+      if (this.peek() === 'Comma') {
+        this.match('Comma');
+        if (this.peek() === 'Rbracket') this.unexpected(this.token());
+      }
+    }
+    this.match('Rbracket');
+    return { type: 'MultiSelectList', items };
+  }
+
+  private multiSelectHash(): QueryNode {
+    const pairs: { key: string; value: QueryNode }[] = [];
+    for (;;) {
+      const key = this.advance();
+      if (key.type !== 'UnquotedIdentifier' && key.type !== 'QuotedIdentifier') {
+        this.unexpected(key);
+      }
+      this.match('Colon');
+      pairs.push({ key: key.value as string, value: this.expression(0) });
+      if (this.peek() === 'Comma') {
+        this.match('Comma');
+      } else {
+        this.match('Rbrace');
+        return { type: 'MultiSelectHash', pairs };
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Interpreter
+// ============================================================================
+
+type JsonObject = Record<string, unknown>;
+
+// An &expression argument, evaluated by the function it is passed to
+interface ExpressionRef {
+  expref: QueryNode;
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isExpressionRef(value: unknown): value is ExpressionRef {
+  return isObject(value) && 'expref' in value;
+}
+
+/**
+ * JMESPath truthiness: null, false, "", [] and {} are false
+ */
+function isTruthy(value: unknown): boolean {
+  if (value === null || value === undefined || value === false || value === '') return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (isObject(value)) return Object.keys(value).length > 0;
+  return true;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => key in b && deepEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+function compare(op: Comparator, a: unknown, b: unknown): boolean | null {
+  if (op === 'EQ') return deepEqual(a, b);
+  if (op === 'NE') return !deepEqual(a, b);
+  // Ordering is only defined for numbers
+  if (typeof a !== 'number' || typeof b !== 'number') return null;
+  switch (op) {
+    case 'GT':
+      return a > b;
+    case 'GTE':
+      return a >= b;
+    case 'LT':
+      return a < b;
+    default:
+      return a <= b;
+  }
+}
+
+function slice(list: unknown[], start: number | null, stop: number | null, step: number | null): unknown[] {
+  const by = step ?? 1;
+  if (by === 0) {
+    throw queryError('slice step cannot be 0');
+  }
+  const length = list.length;
+  const clamp = (value: number | null, fallback: number): number => {
+    if (value === null) return fallback;
+    if (value < 0) return Math.max(value + length, by < 0 ? -1 : 0);
+    return Math.min(value, by < 0 ? length - 1 : length);
+  };
+  const from = clamp(start, by < 0 ? length - 1 : 0);
+  const to = clamp(stop, by < 0 ? -1 : length);
+
+  const result: unknown[] = [];
+  for (let i = from; by > 0 ? i < to : i > to; i += by) {
+    result.push(list[i]);
+  }
+  return result;
+}
+
+function project(list: unknown[], right: QueryNode): unknown[] {
+  return list.map((item) => evaluate(right, item)).filter((item) => item !== null);
+}
+
+function evaluate(node: QueryNode, value: unknown): unknown {
+  switch (node.type) {
+    case 'Field':
+      return isObject(value) ? value[node.name] ?? null : null;
+    case 'Identity':
+      return value;
+    case 'Literal':
+      return node.value;
+    case 'Subexpression':
+    case 'IndexExpression':
+    case 'Pipe':
+      return evaluate(node.right, evaluate(node.left, value));
+    case 'Index':
+      if (!Array.isArray(value)) return null;
+      return value[node.index < 0 ? value.length + node.index : node.index] ?? null;
+    case 'Slice':
+      return Array.isArray(value) ? slice(value, node.start, node.stop, node.step) : null;
+    case 'Projection': {
+      const base = evaluate(node.left, value);
+      return Array.isArray(base) ? project(base, node.right) : null;
+    }
+    case 'ValueProjection': {
+      const base = evaluate(node.left, value);
+      return isObject(base) ? project(Object.values(base), node.right) : null;
+    }
+    case 'FilterProjection': {
+      const base = evaluate(node.left, value);
+      if (!Array.isArray(base)) return null;
+      const matched = base.filter((item) => isTruthy(evaluate(node.condition, item)));
+      return project(matched, node.right);
+    }
+    case 'Flatten': {
+      const base = evaluate(node.child, value);
+      return Array.isArray(base) ? base.flatMap((item) => (Array.isArray(item) ? item : [item])) : null;
+    }
+    case 'Comparator':
+      return compare(node.op, evaluate(node.left, value), evaluate(node.right, value));
+    case 'Or': {
+      const left = evaluate(node.left, value);
+      return isTruthy(left) ? left : evaluate(node.right, value);
+    }
+    case 'And': {
+      const left = evaluate(node.left, value);
+      return isTruthy(left) ? evaluate(node.right, value) : left;
+    }
+    case 'Not':
+      return !isTruthy(evaluate(node.child, value));
+    case 'MultiSelectList':
+      return value === null ? null : node.items.map((item) => evaluate(item, value));
+    case 'MultiSelectHash':
+      if (value === null) return null;
+      return Object.fromEntries(node.pairs.map((pair) => [pair.key, evaluate(pair.value, value)]));
+    case 'ExpressionReference':
+      return { expref: node.child } satisfies ExpressionRef;
+    case 'Function':
+      return callFunction(node.name, node.args.map((arg) => evaluate(arg, value)));
+  }
+}
+
+// ============================================================================
+// Built-in functions
+// ============================================================================
+
+type JsonType = 'number' | 'string' | 'boolean' | 'array' | 'object' | 'null' | 'expref';
+
+function typeOf(value: unknown): JsonType {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (isExpressionRef(value)) return 'expref';
+  return typeof value as JsonType;
+}
+
+function argumentError(name: string, message: string): CliError {
+  return new CliError(`Invalid --query: ${name}() ${message}`, 'validation');
+}
+
+function expectArgs(name: string, args: unknown[], ...types: (JsonType | JsonType[])[]): void {
+  if (args.length !== types.length) {
+    throw argumentError(name, `takes ${types.length} argument(s), got ${args.length}`);
+  }
+  types.forEach((expected, i) => {
+    const allowed = Array.isArray(expected) ? expected : [expected];
+    if (!allowed.includes(typeOf(args[i]))) {
+      throw argumentError(name, `argument ${i + 1} must be ${allowed.join(' or ')}, got ${typeOf(args[i])}`);
+    }
+  });
+}
+
+function expectArrayOf(name: string, list: unknown[], type: JsonType): void {
+  if (list.some((item) => typeOf(item) !== type)) {
+    throw argumentError(name, `expects an array of ${type}s`);
+  }
+}
+
+/**
+ * Sort by key, requiring every key to be a number or every key a string
+ */
+function sortByKey(name: string, list: unknown[], key: (item: unknown) => unknown): unknown[] {
+  const keyed = list.map((item, position) => ({ item, key: key(item), position }));
+  const types = new Set(keyed.map((k) => typeOf(k.key)));
+  if (types.size > 1 || (types.size === 1 && !types.has('number') && !types.has('string'))) {
+    throw argumentError(name, 'keys must all be numbers or all be strings');
+  }
+  return keyed
+    .sort((a, b) => {
+      if (a.key === b.key) return a.position - b.position;
+      return (a.key as number | string) < (b.key as number | string) ? -1 : 1;
+    })
+    .map((k) => k.item);
+}
+
+function extreme(name: string, list: unknown[], key: (item: unknown) => unknown, sign: 1 | -1): unknown {
+  const sorted = sortByKey(name, list, key);
+  if (sorted.length === 0) return null;
+  return sign > 0 ? sorted[sorted.length - 1] : sorted[0];
+}
+
+function callFunction(name: string, args: unknown[]): unknown {
+  const ref = (arg: unknown) => (item: unknown): unknown => evaluate((arg as ExpressionRef).expref, item);
+
+  switch (name) {
+    case 'abs':
+      expectArgs(name, args, 'number');
+      return Math.abs(args[0] as number);
+    case 'avg': {
+      expectArgs(name, args, 'array');
+      const list = args[0] as number[];
+      expectArrayOf(name, list, 'number');
+      return list.length ? list.reduce((a, b) => a + b, 0) / list.length : null;
+    }
+    case 'ceil':
+      expectArgs(name, args, 'number');
+      return Math.ceil(args[0] as number);
+    case 'contains': {
+      expectArgs(name, args, ['array', 'string'], ['number', 'string', 'boolean', 'array', 'object', 'null']);
+      const [subject, search] = args;
+      if (typeof subject === 'string') return typeof search === 'string' && subject.includes(search);
+      return (subject as unknown[]).some((item) => deepEqual(item, search));
+    }
+    case 'ends_with':
+      expectArgs(name, args, 'string', 'string');
+      return (args[0] as string).endsWith(args[1] as string);
+    case 'floor':
+      expectArgs(name, args, 'number');
+      return Math.floor(args[0] as number);
+    case 'join': {
+      expectArgs(name, args, 'string', 'array');
+      const list = args[1] as string[];
+      expectArrayOf(name, list, 'string');
+      return list.join(args[0] as string);
+    }
+    case 'keys':
+      expectArgs(name, args, 'object');
+      return Object.keys(args[0] as JsonObject);
+    case 'length': {
+      expectArgs(name, args, ['string', 'array', 'object']);
+      const subject = args[0];
+      if (isObject(subject)) return Object.keys(subject).length;
+      return typeof subject === 'string' ? [...subject].length : (subject as unknown[]).length;
+    }
+    case 'map':
+      expectArgs(name, args, 'expref', 'array');
+      return (args[1] as unknown[]).map(ref(args[0]));
+    case 'max':
+    case 'min': {
+      expectArgs(name, args, 'array');
+      return extreme(name, args[0] as unknown[], (item) => item, name === 'max' ? 1 : -1);
+    }
+    case 'max_by':
+    case 'min_by':
+      expectArgs(name, args, 'array', 'expref');
+      return extreme(name, args[0] as unknown[], ref(args[1]), name === 'max_by' ? 1 : -1);
+    case 'merge':
+      if (args.some((arg) => !isObject(arg))) {
+        throw argumentError(name, 'arguments must be objects');
+      }
+      return Object.assign({}, ...args);
+    case 'not_null':
+      if (args.length === 0) {
+        throw argumentError(name, 'takes at least 1 argument');
+      }
+      return args.find((arg) => arg !== null && arg !== undefined) ?? null;
+    case 'reverse':
+      expectArgs(name, args, ['string', 'array']);
+      return typeof args[0] === 'string' ? [...args[0]].reverse().join('') : [...(args[0] as unknown[])].reverse();
+    case 'sort':
+      expectArgs(name, args, 'array');
+      return sortByKey(name, args[0] as unknown[], (item) => item);
+    case 'sort_by':
+      expectArgs(name, args, 'array', 'expref');
+      return sortByKey(name, args[0] as unknown[], ref(args[1]));
+    case 'starts_with':
+      expectArgs(name, args, 'string', 'string');
+      return (args[0] as string).startsWith(args[1] as string);
+    case 'sum': {
+      expectArgs(name, args, 'array');
+      const list = args[0] as number[];
+      expectArrayOf(name, list, 'number');
+      return list.reduce((a, b) => a + b, 0);
+    }
+    case 'to_array':
+      expectArgs(name, args, ['number', 'string', 'boolean', 'array', 'object', 'null']);
+      return Array.isArray(args[0]) ? args[0] : [args[0]];
+    case 'to_number': {
+      expectArgs(name, args, ['number', 'string', 'boolean', 'array', 'object', 'null']);
+      if (typeof args[0] === 'number') return args[0];
+      if (typeof args[0] !== 'string' || args[0].trim() === '') return null;
+      const parsed = Number(args[0]);
+      return Number.isNaN(parsed) ? null : parsed;
+    }
+    case 'to_string':
+      expectArgs(name, args, ['number', 'string', 'boolean', 'array', 'object', 'null']);
+      return typeof args[0] === 'string' ? args[0] : JSON.stringify(args[0]);
+    case 'type':
+      expectArgs(name, args, ['number', 'string', 'boolean', 'array', 'object', 'null']);
+      return typeOf(args[0]);
+    case 'values':
+      expectArgs(name, args, 'object');
+      return Object.values(args[0] as JsonObject);
+    default:
+      throw queryError(`unknown function ${name}()`);
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Parse a JMESPath expression. Throws a validation CliError on syntax errors.
+ */
+export function parseQuery(expression: string): QueryNode {
+  if (expression.trim() === '') {
+    throw queryError('expression is empty');
+  }
+  return new Parser().parse(expression);
+}
+
+/**
+ * Evaluate a parsed expression against JSON data
+ */
+export function runQuery(query: QueryNode, data: unknown): unknown {
+  // Results from the API can contain undefined fields; JMESPath sees null
+  return evaluate(query, data === undefined ? null : data);
+}
+
+/**
+ * Whether an expression holds for the data, by JMESPath truthiness
+ */
+export function testQuery(query: QueryNode, data: unknown): boolean {
+  return isTruthy(runQuery(query, data));
+}
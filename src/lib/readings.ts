@@ -0,0 +1,564 @@
+import { InvalidArgumentError } from 'commander';
+import { appendFileSync, existsSync, readFileSync, statSync, truncateSync, unlinkSync, writeFileSync } from 'fs';
+import { apiGet } from './api.js';
+import { cachedApiGet } from './cache.js';
+import { getTemplatesPath } from './paths.js';
+import { CliError } from './errors.js';
+import { delimitedCell } from './output.js';
+import type { Device, DeviceReading, DeviceTemplate, SensorReading, TemplateChannel } from '../types/index.js';
+
+export const DEFAULT_EXPORT_WINDOW = '1d';
+export const DEFAULT_EXPORT_PAGE_SIZE = 1000;
+export const DEFAULT_TAIL_INTERVAL = '5s';
+
+export const EXPORT_FORMATS = ['csv', 'ndjson'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const AGGREGATES = ['avg', 'min', 'max', 'count', 'last'] as const;
+export type Aggregate = (typeof AGGREGATES)[number];
+
+export const THRESHOLD_OPERATORS = ['>=', '<=', '!=', '>', '<', '='] as const;
+export type ThresholdOperator = (typeof THRESHOLD_OPERATORS)[number];
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1_000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/**
+ * A reading channel and the column it is exported as
+ */
+export interface ReadingColumn {
+  channel: number;
+  name: string;
+}
+
+/**
+ * How a channel's values are shown, from the device template
+ */
+export interface ChannelInfo extends ReadingColumn {
+  /** Display form of the default unit, e.g. °C */
+  unit?: string;
+  decimals?: number;
+  /** Status labels keyed by value */
+  statuses: Record<string, string>;
+}
+
+export interface ResolvedSensor extends SensorReading {
+  name: string;
+  unit?: string;
+  status?: string;
+  /** The value as shown, e.g. "21.4 °C" or "Open" */
+  display: string;
+}
+
+export interface ExportProgress {
+  window: number;
+  windows: number;
+  rows: number;
+}
+
+export interface ExportOptions {
+  deviceId: string;
+  from: number;
+  /** End of the range; when not given, an interrupted export keeps its own, else now */
+  to?: number;
+  windowMs: number;
+  pageSize: number;
+  file: string;
+  format: ExportFormat;
+  /** Discard a previous interrupted export instead of resuming it */
+  restart?: boolean;
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+export interface ExportSummary {
+  file: string;
+  format: ExportFormat;
+  rows: number;
+  windows: number;
+  columns: ReadingColumn[];
+  /** Start of the first window fetched by this run, when it resumed an earlier one */
+  resumedFrom?: number;
+  /** Channels missing from the device template, not exported to CSV */
+  droppedChannels: number[];
+}
+
+/**
+ * Aggregates of one channel over a bucket. avg, min and max only use
+ * numeric values; count and last include every value.
+ */
+export type ChannelAggregates = Partial<Record<Aggregate, number | string | null>>;
+
+export interface ReadingBucket {
+  /** Start of the bucket */
+  bucket: string;
+  readings: number;
+  /** Keyed by ch<N> */
+  channels: Record<string, ChannelAggregates>;
+}
+
+/**
+ * A --threshold rule such as Temperature>30 or 3=Open
+ */
+export interface Threshold {
+  /** Channel number, ch<N> or channel name as given */
+  channel: string;
+  operator: ThresholdOperator;
+  value: string;
+  /** The rule as given */
+  rule: string;
+}
+
+/**
+ * Progress of an export, kept next to the output file until it completes
+ */
+interface ExportState {
+  deviceId: string;
+  from: number;
+  to: number;
+  windowMs: number;
+  format: ExportFormat;
+  columns: ReadingColumn[];
+  /** Every reading before this time has been written */
+  completedUntil: number;
+  rows: number;
+  /** Output file size after the last completed window */
+  bytes: number;
+  /** Channels outside the CSV header, left out of the file */
+  droppedChannels: number[];
+}
+
+/**
+ * Parse a duration such as 30s, 15m, 6h, 1d or 2w into milliseconds
+ */
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+)([smhdw])$/);
+  if (!match || parseInt(match[1], 10) === 0) {
+    throw new InvalidArgumentError('Expected a duration such as 30s, 15m, 6h, 1d or 2w.');
+  }
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2]];
+}
+
+/**
+ * Parse a --from/--to date (anything Date accepts, e.g. ISO 8601)
+ */
+export function parseTime(value: string): number {
+  const time = new Date(value).getTime();
+  if (isNaN(time)) {
+    throw new InvalidArgumentError('Expected a date, e.g. 2024-05-01 or 2024-05-01T12:00:00Z.');
+  }
+  return time;
+}
+
+/**
+ * Parse a readings-per-request --limit
+ */
+export function parsePageSize(value: string): number {
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed < 1 || String(parsed) !== value.trim()) {
+    throw new InvalidArgumentError('Must be a positive integer.');
+  }
+  return parsed;
+}
+
+/**
+ * Parse a comma-separated --agg list
+ */
+export function parseAggregates(value: string): Aggregate[] {
+  const aggregates = value.split(',').map((a) => a.trim().toLowerCase()).filter(Boolean);
+  const unknown = aggregates.filter((a) => !(AGGREGATES as readonly string[]).includes(a));
+  if (aggregates.length === 0 || unknown.length > 0) {
+    throw new InvalidArgumentError(`Expected a comma-separated list of: ${AGGREGATES.join(', ')}.`);
+  }
+  return [...new Set(aggregates)] as Aggregate[];
+}
+
+/**
+ * Parse a --threshold rule: <channel><operator><value>, where the channel
+ * is a number, ch<N> or a channel name
+ */
+export function parseThreshold(value: string): Threshold {
+  const match = value.trim().match(/^(.+?)\s*(>=|<=|!=|>|<|=)\s*(.+)$/);
+  if (!match) {
+    throw new InvalidArgumentError(`Expected <channel><operator><value> with one of ${THRESHOLD_OPERATORS.join(' ')}, e.g. Temperature>30 or 3=Open.`);
+  }
+  return { channel: match[1].trim(), operator: match[2] as ThresholdOperator, value: match[3].trim(), rule: value.trim() };
+}
+
+/**
+ * Split [from, to) into consecutive windows of at most windowMs
+ */
+export function splitTimeRange(from: number, to: number, windowMs: number): Array<{ from: number; to: number }> {
+  const windows: Array<{ from: number; to: number }> = [];
+  for (let start = from; start < to; start += windowMs) {
+    windows.push({ from: start, to: Math.min(start + windowMs, to) });
+  }
+  return windows;
+}
+
+/**
+ * Channels of a device's template, sorted by number and named uniquely:
+ * channel names used more than once get the channel number appended.
+ */
+export async function getChannelInfo(deviceId: string): Promise<ChannelInfo[]> {
+  const device = await apiGet<Device>(`/v1.0/admin/things/${deviceId}`);
+  if (!device.device_type_id) {
+    return [];
+  }
+
+  const template = await cachedApiGet<DeviceTemplate>('templates', `${getTemplatesPath()}/${device.device_type_id}`);
+  const channels = (template.channels ?? [])
+    .map((c) => toChannelInfo(c))
+    .filter((c) => !isNaN(c.channel))
+    .sort((a, b) => a.channel - b.channel);
+
+  const counts = new Map<string, number>();
+  for (const c of channels) counts.set(c.name, (counts.get(c.name) ?? 0) + 1);
+  return channels.map((c) => (counts.get(c.name)! > 1 ? { ...c, name: `${c.name} (ch${c.channel})` } : c));
+}
+
+function toChannelInfo(channel: TemplateChannel): ChannelInfo {
+  const units = channel.data?.units ?? [];
+  const unit = units.find((u) => u.default) ?? units[0];
+  const statuses: Record<string, string> = {};
+  for (const status of channel.data?.statuses ?? []) {
+    statuses[status.value] = status.label || status.name;
+  }
+  return {
+    channel: parseInt(channel.channel, 10),
+    name: channel.name,
+    unit: unit?.display || undefined,
+    decimals: unit?.decimals,
+    statuses,
+  };
+}
+
+/**
+ * Columns for a device's channels, named from its template
+ */
+export async function getChannelColumns(deviceId: string): Promise<ReadingColumn[]> {
+  return (await getChannelInfo(deviceId)).map(({ channel, name }) => ({ channel, name }));
+}
+
+/**
+ * A reading value for display: its status label for status channels,
+ * otherwise the value rounded to the unit's decimals with the unit shown
+ */
+export function formatChannelValue(value: number | string, info: ChannelInfo | undefined): string {
+  if (!info) return String(value);
+
+  const status = info.statuses[String(value)];
+  if (status !== undefined) return status;
+
+  const number = numericValue(value);
+  if (number === null) return String(value);
+  const shown = info.decimals !== undefined ? number.toFixed(info.decimals) : String(number);
+  return info.unit ? `${shown} ${info.unit}` : shown;
+}
+
+/**
+ * Sensor values with their channel name, unit and status label added
+ */
+export function resolveSensors(sensors: SensorReading[], channels: ChannelInfo[]): ResolvedSensor[] {
+  const byChannel = new Map(channels.map((c) => [c.channel, c]));
+  return sensors.map((sensor) => {
+    const info = byChannel.get(sensor.channel);
+    const status = info?.statuses[String(sensor.v)];
+    return {
+      ...sensor,
+      name: info?.name ?? `ch${sensor.channel}`,
+      ...(info?.unit && status === undefined ? { unit: info.unit } : {}),
+      ...(status !== undefined ? { status } : {}),
+      display: formatChannelValue(sensor.v, info),
+    };
+  });
+}
+
+function matchesChannel(threshold: Threshold, sensor: ResolvedSensor): boolean {
+  const channel = threshold.channel.replace(/^ch(?=\d+$)/i, '');
+  if (/^\d+$/.test(channel)) return parseInt(channel, 10) === sensor.channel;
+  return channel.toLowerCase() === sensor.name.toLowerCase();
+}
+
+/**
+ * The thresholds a sensor value meets. Numbers compare numerically;
+ * otherwise = and != compare the raw value or status label, ignoring case.
+ */
+export function checkThresholds(sensor: ResolvedSensor, thresholds: Threshold[]): Threshold[] {
+  return thresholds.filter((threshold) => {
+    if (!matchesChannel(threshold, sensor)) return false;
+
+    const actual = numericValue(sensor.v);
+    const expected = numericValue(threshold.value);
+    if (actual !== null && expected !== null) {
+      switch (threshold.operator) {
+        case '>': return actual > expected;
+        case '>=': return actual >= expected;
+        case '<': return actual < expected;
+        case '<=': return actual <= expected;
+        case '=': return actual === expected;
+        case '!=': return actual !== expected;
+      }
+    }
+
+    const wanted = threshold.value.toLowerCase();
+    const equal = [String(sensor.v), sensor.status].some((v) => v?.toLowerCase() === wanted);
+    if (threshold.operator === '=') return equal;
+    if (threshold.operator === '!=') return !equal;
+    return false;
+  });
+}
+
+/**
+ * Fetch every reading in [from, to), paging with `limit` per request.
+ * Returned oldest first.
+ */
+export async function fetchReadingsRange(
+  deviceId: string,
+  from: number,
+  to: number,
+  limit: number
+): Promise<DeviceReading[]> {
+  const readings: DeviceReading[] = [];
+  let start = from;
+  let end = to - 1;
+
+  while (start <= end) {
+    const page = await apiGet<DeviceReading[]>(`/v1.0/admin/things/${deviceId}/readings`, { from: start, to: end, limit });
+    readings.push(...page.filter((r) => r.ts >= start && r.ts <= end));
+    if (page.length < limit) break;
+
+    // Continue past the page in whichever order the API returned it
+    const times = page.map((r) => r.ts);
+    if (page[0].ts > page[page.length - 1].ts) {
+      end = Math.min(...times) - 1;
+    } else {
+      start = Math.max(...times) + 1;
+    }
+  }
+
+  return readings.sort((a, b) => a.ts - b.ts);
+}
+
+/**
+ * One reading as a flat record: its timestamp plus a value per column
+ */
+export function pivotReading(reading: DeviceReading, columns: ReadingColumn[]): Record<string, string | number | null> {
+  const values = new Map<number, number | string>();
+  for (const sensor of reading.sensors ?? []) {
+    values.set(sensor.channel, sensor.v);
+  }
+
+  const record: Record<string, string | number | null> = { timestamp: new Date(reading.ts).toISOString() };
+  for (const column of columns) {
+    record[column.name] = values.get(column.channel) ?? null;
+  }
+  return record;
+}
+
+/**
+ * A reading value as a number: numbers, and strings that read as one.
+ * Anything else (e.g. "on", "") is null.
+ */
+function numericValue(value: number | string): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const trimmed = value.trim();
+  const parsed = Number(trimmed);
+  return trimmed !== '' && Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Group readings into fixed buckets (aligned to the epoch, so 1d buckets
+ * start at midnight UTC) and aggregate each channel within them. Buckets
+ * without readings are left out.
+ */
+export function aggregateReadings(readings: DeviceReading[], bucketMs: number, aggregates: Aggregate[]): ReadingBucket[] {
+  const buckets = new Map<number, DeviceReading[]>();
+  for (const reading of [...readings].sort((a, b) => a.ts - b.ts)) {
+    const start = Math.floor(reading.ts / bucketMs) * bucketMs;
+    const bucket = buckets.get(start) ?? [];
+    bucket.push(reading);
+    buckets.set(start, bucket);
+  }
+
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([start, bucketReadings]) => {
+      const values = new Map<number, Array<number | string>>();
+      for (const reading of bucketReadings) {
+        for (const sensor of reading.sensors ?? []) {
+          const channelValues = values.get(sensor.channel) ?? [];
+          channelValues.push(sensor.v);
+          values.set(sensor.channel, channelValues);
+        }
+      }
+
+      const channels: Record<string, ChannelAggregates> = {};
+      for (const channel of [...values.keys()].sort((a, b) => a - b)) {
+        const all = values.get(channel)!;
+        const numbers = all.map(numericValue).filter((v): v is number => v !== null);
+        const result: ChannelAggregates = {};
+        for (const aggregate of aggregates) {
+          switch (aggregate) {
+            case 'avg':
+              result.avg = numbers.length > 0 ? numbers.reduce((sum, v) => sum + v, 0) / numbers.length : null;
+              break;
+            case 'min':
+              result.min = numbers.length > 0 ? numbers.reduce((min, v) => Math.min(min, v)) : null;
+              break;
+            case 'max':
+              result.max = numbers.length > 0 ? numbers.reduce((max, v) => Math.max(max, v)) : null;
+              break;
+            case 'count':
+              result.count = all.length;
+              break;
+            case 'last':
+              result.last = all[all.length - 1];
+              break;
+          }
+        }
+        channels[`ch${channel}`] = result;
+      }
+
+      return { bucket: new Date(start).toISOString(), readings: bucketReadings.length, channels };
+    });
+}
+
+/**
+ * Channels in the readings that are not among the columns, named ch<N>
+ */
+function unknownChannels(readings: DeviceReading[], columns: ReadingColumn[]): ReadingColumn[] {
+  const known = new Set(columns.map((c) => c.channel));
+  const extra = new Set<number>();
+  for (const reading of readings) {
+    for (const sensor of reading.sensors ?? []) {
+      if (!known.has(sensor.channel)) extra.add(sensor.channel);
+    }
+  }
+  return [...extra].sort((a, b) => a - b).map((channel) => ({ channel, name: `ch${channel}` }));
+}
+
+function formatRows(readings: DeviceReading[], columns: ReadingColumn[], format: ExportFormat): string {
+  return readings
+    .map((reading) => {
+      const record = pivotReading(reading, columns);
+      return format === 'csv'
+        ? Object.values(record).map((value) => delimitedCell(value, ',')).join(',')
+        : JSON.stringify(record);
+    })
+    .map((line) => line + '\n')
+    .join('');
+}
+
+export function getExportStatePath(file: string): string {
+  return `${file}.progress`;
+}
+
+function readExportState(file: string): ExportState | null {
+  const statePath = getExportStatePath(file);
+  if (!existsSync(statePath)) return null;
+  try {
+    return JSON.parse(readFileSync(statePath, 'utf8')) as ExportState;
+  } catch {
+    throw new CliError(`Cannot read ${statePath}; remove it or pass --restart`, 'validation');
+  }
+}
+
+/**
+ * Append a window's readings and return the state after it. CSV keeps the
+ * columns of its header; NDJSON adds channels outside the template as ch<N>.
+ */
+function appendWindow(file: string, state: ExportState, readings: DeviceReading[], windowEnd: number): ExportState {
+  const extra = unknownChannels(readings, state.columns);
+  const columns = state.format === 'csv' ? state.columns : [...state.columns, ...extra];
+  const text = formatRows(readings, columns, state.format);
+  appendFileSync(file, text);
+
+  const dropped = state.format === 'csv' ? extra.map((c) => c.channel) : [];
+  return {
+    ...state,
+    completedUntil: windowEnd,
+    rows: state.rows + readings.length,
+    bytes: state.bytes + Buffer.byteLength(text),
+    droppedChannels: [...new Set([...state.droppedChannels, ...dropped])].sort((a, b) => a - b),
+  };
+}
+
+/**
+ * Export a device's readings to a CSV or NDJSON file, one window of time at
+ * a time. After each window the file and a .progress file record how far
+ * the export got, so running the same export again resumes after the last
+ * complete window instead of starting over.
+ */
+export async function exportReadings(options: ExportOptions): Promise<ExportSummary> {
+  const { deviceId, from, windowMs, format, file } = options;
+  let state = options.restart ? null : readExportState(file);
+  const to = options.to ?? state?.to ?? Date.now();
+
+  if (state) {
+    const same = state.deviceId === deviceId && state.from === from && state.to === to &&
+      state.windowMs === windowMs && state.format === format;
+    if (!same) {
+      throw new CliError(
+        `${getExportStatePath(file)} belongs to a different export; pass --restart to start over`,
+        'validation'
+      );
+    }
+    if (!existsSync(file) || statSync(file).size < state.bytes) {
+      throw new CliError(`${file} is shorter than its recorded progress; pass --restart to start over`, 'validation');
+    }
+    // Drop anything written after the last complete window
+    truncateSync(file, state.bytes);
+  }
+
+  const resumedFrom = state ? state.completedUntil : undefined;
+  if (!state) {
+    let columns = await getChannelColumns(deviceId);
+    const windows = splitTimeRange(from, to, windowMs);
+
+    // Without template channels, name columns after the first window's channels
+    let firstWindow: DeviceReading[] | undefined;
+    if (columns.length === 0 && windows.length > 0) {
+      firstWindow = await fetchReadingsRange(deviceId, windows[0].from, windows[0].to, options.pageSize);
+      columns = unknownChannels(firstWindow, []);
+    }
+
+    const headerLine = format === 'csv'
+      ? ['timestamp', ...columns.map((c) => c.name)].map((h) => delimitedCell(h, ',')).join(',') + '\n'
+      : '';
+    writeFileSync(file, headerLine);
+    state = { deviceId, from, to, windowMs, format, columns, completedUntil: from, rows: 0, bytes: Buffer.byteLength(headerLine), droppedChannels: [] };
+
+    if (firstWindow) {
+      state = appendWindow(file, state, firstWindow, windows[0].to);
+    }
+    writeFileSync(getExportStatePath(file), JSON.stringify(state, null, 2));
+  }
+
+  const windows = splitTimeRange(state.completedUntil, to, windowMs);
+  const skipped = splitTimeRange(from, state.completedUntil, windowMs).length;
+  const total = skipped + windows.length;
+
+  for (const [i, window] of windows.entries()) {
+    options.onProgress?.({ window: skipped + i + 1, windows: total, rows: state.rows });
+    const readings = await fetchReadingsRange(deviceId, window.from, window.to, options.pageSize);
+    state = appendWindow(file, state, readings, window.to);
+    writeFileSync(getExportStatePath(file), JSON.stringify(state, null, 2));
+  }
+
+  unlinkSync(getExportStatePath(file));
+  return {
+    file,
+    format,
+    rows: state.rows,
+    windows: total,
+    columns: state.columns,
+    resumedFrom,
+    droppedChannels: state.droppedChannels,
+  };
+}
+
@@ -0,0 +1,77 @@
+import { getConfig } from './config.js';
+
+export const REDACTED = '[REDACTED]';
+
+// Header and field names whose values must never be written to disk
+const SECRET_HEADER_PATTERN = /^(authorization|proxy-authorization|cookie|set-cookie|x-api-key)$/i;
+const SECRET_FIELD_PATTERN = /secret|password|passphrase|token|authorization|api[_-]?key/i;
+
+/**
+ * Whether a body field, form field or query parameter holds a secret.
+ * Extra names can be listed in the redactFields setting.
+ */
+export function isSecretField(name: string): boolean {
+  if (SECRET_FIELD_PATTERN.test(name)) return true;
+  const extra = getConfig('redactFields');
+  return extra.some((field) => field.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Copy of a header map with credentials replaced
+ */
+export function redactHeaders(headers: Record<string, unknown> | undefined): Record<string, unknown> {
+  const redacted: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(headers || {})) {
+    if (value === undefined || value === null) continue;
+    redacted[name] = SECRET_HEADER_PATTERN.test(name) ? REDACTED : value;
+  }
+  return redacted;
+}
+
+/**
+ * Deep copy of a request/response body with secret fields replaced
+ */
+export function redactBody(body: unknown): unknown {
+  if (Array.isArray(body)) {
+    return body.map(redactBody);
+  }
+  if (body && typeof body === 'object') {
+    const redacted: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(body)) {
+      redacted[key] = isSecretField(key) && value !== '' ? REDACTED : redactBody(value);
+    }
+    return redacted;
+  }
+  return body;
+}
+
+/**
+ * Redact secret parameters of a URL-encoded form body (token requests)
+ */
+export function redactForm(body: string): string {
+  const params = new URLSearchParams(body);
+  for (const key of new Set(params.keys())) {
+    if (isSecretField(key)) {
+      params.set(key, REDACTED);
+    }
+  }
+  return params.toString();
+}
+
+/**
+ * Redact secret query parameters of a URL
+ */
+export function redactUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  for (const key of new Set(parsed.searchParams.keys())) {
+    if (isSecretField(key)) {
+      parsed.searchParams.set(key, REDACTED);
+    }
+  }
+  return parsed.toString();
+}
@@ -0,0 +1,131 @@
+import type { AxiosError } from 'axios';
+import { getConfig } from './config.js';
+import { getRuntimeOptions } from './global-options.js';
+
+export interface RetryPolicy {
+  retries: number;
+  baseDelay: number;
+  maxDelay: number;
+}
+
+// Methods that are safe to repeat without the caller opting in
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
+const RETRYABLE_ERROR_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  // The fetch adapter reports refused/reset connections as ERR_NETWORK
+  'ERR_NETWORK',
+];
+
+/**
+ * Resolve the retry policy: --retries flag, then config
+ */
+export function getRetryPolicy(): RetryPolicy {
+  return {
+    retries: getRuntimeOptions().retries ?? getConfig('retries'),
+    baseDelay: getConfig('retryDelay'),
+    maxDelay: getConfig('retryMaxDelay'),
+  };
+}
+
+export function isIdempotentMethod(method?: string): boolean {
+  return IDEMPOTENT_METHODS.includes((method || 'get').toLowerCase());
+}
+
+/**
+ * Whether a failure is transient (rate limit, gateway error, dropped connection)
+ */
+export function isTransientError(error: AxiosError): boolean {
+  if (error.response) {
+    return RETRYABLE_STATUSES.includes(error.response.status);
+  }
+  return !!error.code && RETRYABLE_ERROR_CODES.includes(error.code);
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and
+ * baseDelay * 2^attempt, capped at maxDelay
+ */
+export function getBackoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Work out how long to wait before the next attempt, or null if the
+ * request should not be retried
+ */
+export function getRetryDelay(
+  error: AxiosError,
+  attempt: number,
+  policy: RetryPolicy,
+  allowNonIdempotent = false
+): number | null {
+  if (attempt >= policy.retries) return null;
+  if (!isTransientError(error)) return null;
+  if (!allowNonIdempotent && !isIdempotentMethod(error.config?.method)) return null;
+
+  const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+  if (retryAfter !== undefined) {
+    // The server asked for a longer pause than we are willing to wait
+    return retryAfter <= policy.maxDelay ? retryAfter : null;
+  }
+
+  return getBackoffDelay(attempt, policy);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ============================================================================
+// Rate-limit signal
+// ============================================================================
+
+type RateLimitListener = (retryAfter?: number) => void;
+
+const rateLimitListeners = new Set<RateLimitListener>();
+
+/**
+ * Be told whenever the API answers 429, even when the request is then
+ * retried successfully. Returns a function that removes the listener.
+ */
+export function onRateLimited(listener: RateLimitListener): () => void {
+  rateLimitListeners.add(listener);
+  return () => rateLimitListeners.delete(listener);
+}
+
+/**
+ * Report a 429 response, with the server's Retry-After in milliseconds if given
+ */
+export function notifyRateLimited(retryAfter?: number): void {
+  for (const listener of rateLimitListeners) {
+    listener(retryAfter);
+  }
+}
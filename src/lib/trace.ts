@@ -0,0 +1,250 @@
+import axios, { AxiosHeaders } from 'axios';
+import type { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { appendFileSync, writeFileSync } from 'fs';
+import { getRuntimeOptions } from './global-options.js';
+import { getCurrentVersion } from './version.js';
+import { redactHeaders, redactBody, redactForm, redactUrl } from './redact.js';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** When the request was handed to the adapter (ms since epoch) */
+    traceStart?: number;
+  }
+}
+
+export type TraceFormat = 'har' | 'ndjson';
+
+interface TraceSettings {
+  file: string;
+  format: TraceFormat;
+}
+
+interface TracedMessage {
+  headers: Record<string, unknown>;
+  body?: string;
+  mimeType: string;
+  size: number;
+}
+
+interface TraceEntry {
+  startedAt: Date;
+  time: number;
+  method: string;
+  url: string;
+  request: TracedMessage;
+  response?: TracedMessage & { status: number; statusText: string };
+  error?: string;
+}
+
+// ============================================================================
+// Settings
+// ============================================================================
+
+/**
+ * Trace file from --trace, then MYDEVICES_TRACE. Files ending in .ndjson or
+ * .jsonl get one JSON object per request appended; anything else is
+ * (over)written as a HAR 1.2 document.
+ */
+export function getTraceSettings(): TraceSettings | null {
+  const file = getRuntimeOptions().trace ?? process.env.MYDEVICES_TRACE;
+  if (!file) return null;
+  return { file, format: /\.(ndjson|jsonl)$/i.test(file) ? 'ndjson' : 'har' };
+}
+
+// ============================================================================
+// Capture
+// ============================================================================
+
+function headersToObject(headers: unknown): Record<string, unknown> {
+  if (headers instanceof AxiosHeaders) return headers.toJSON();
+  return (headers as Record<string, unknown>) || {};
+}
+
+function getMimeType(headers: Record<string, unknown>): string {
+  const entry = Object.entries(headers).find(([name]) => name.toLowerCase() === 'content-type');
+  return entry ? String(entry[1]) : '';
+}
+
+/**
+ * Serialize a body for the trace with secret fields redacted
+ */
+function traceBody(data: unknown, mimeType: string): string | undefined {
+  if (data === undefined || data === null || data === '') return undefined;
+
+  if (typeof data === 'string') {
+    if (mimeType.includes('application/x-www-form-urlencoded')) {
+      return redactForm(data);
+    }
+    try {
+      return JSON.stringify(redactBody(JSON.parse(data)));
+    } catch {
+      return data;
+    }
+  }
+  if (data instanceof URLSearchParams) {
+    return redactForm(data.toString());
+  }
+  return JSON.stringify(redactBody(data));
+}
+
+function bodySize(data: unknown): number {
+  if (data === undefined || data === null) return 0;
+  if (typeof data === 'string') return Buffer.byteLength(data);
+  if (data instanceof URLSearchParams) return Buffer.byteLength(data.toString());
+  return Buffer.byteLength(JSON.stringify(data));
+}
+
+function captureRequest(config: InternalAxiosRequestConfig): TracedMessage {
+  const headers = headersToObject(config.headers);
+  const mimeType = getMimeType(headers);
+  return {
+    headers: redactHeaders(headers),
+    body: traceBody(config.data, mimeType),
+    mimeType,
+    size: bodySize(config.data),
+  };
+}
+
+function captureResponse(response: AxiosResponse): NonNullable<TraceEntry['response']> {
+  const headers = headersToObject(response.headers);
+  const mimeType = getMimeType(headers);
+  const length = Number(headers['content-length']);
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: redactHeaders(headers),
+    body: traceBody(response.data, mimeType),
+    mimeType,
+    size: Number.isFinite(length) ? length : bodySize(response.data),
+  };
+}
+
+function buildEntry(
+  client: AxiosInstance,
+  config: InternalAxiosRequestConfig,
+  response?: AxiosResponse,
+  error?: string
+): TraceEntry {
+  const start = config.traceStart ?? Date.now();
+  return {
+    startedAt: new Date(start),
+    time: Date.now() - start,
+    method: (config.method || 'get').toUpperCase(),
+    url: redactUrl(client.getUri(config)),
+    request: captureRequest(config),
+    response: response ? captureResponse(response) : undefined,
+    error,
+  };
+}
+
+// ============================================================================
+// Writers
+// ============================================================================
+
+const harEntries: object[] = [];
+
+function toHarHeaders(headers: Record<string, unknown>): { name: string; value: string }[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value: String(value) }));
+}
+
+function toHarEntry(entry: TraceEntry): object {
+  const url = new URL(entry.url);
+  const har: Record<string, unknown> = {
+    startedDateTime: entry.startedAt.toISOString(),
+    time: entry.time,
+    request: {
+      method: entry.method,
+      url: entry.url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toHarHeaders(entry.request.headers),
+      queryString: [...url.searchParams].map(([name, value]) => ({ name, value })),
+      ...(entry.request.body !== undefined && {
+        postData: { mimeType: entry.request.mimeType, text: entry.request.body },
+      }),
+      headersSize: -1,
+      bodySize: entry.request.size,
+    },
+    response: {
+      status: entry.response?.status ?? 0,
+      statusText: entry.response?.statusText ?? '',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toHarHeaders(entry.response?.headers || {}),
+      content: {
+        size: entry.response?.size ?? 0,
+        mimeType: entry.response?.mimeType ?? '',
+        ...(entry.response?.body !== undefined && { text: entry.response.body }),
+      },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: entry.response?.size ?? -1,
+    },
+    cache: {},
+    // Only the total is measured; it is reported as waiting time
+    timings: { send: 0, wait: entry.time, receive: 0 },
+  };
+  if (entry.error) {
+    har._error = entry.error;
+  }
+  return har;
+}
+
+function toNdjsonEntry(entry: TraceEntry): object {
+  return {
+    startedDateTime: entry.startedAt.toISOString(),
+    time: entry.time,
+    method: entry.method,
+    url: entry.url,
+    request: entry.request,
+    response: entry.response,
+    ...(entry.error && { error: entry.error }),
+  };
+}
+
+function writeEntry(settings: TraceSettings, entry: TraceEntry): void {
+  if (settings.format === 'ndjson') {
+    // Appended across runs, so one file can trace a whole script
+    appendFileSync(settings.file, JSON.stringify(toNdjsonEntry(entry)) + '\n');
+    return;
+  }
+
+  // HAR is a single document, so rewrite it after every request
+  harEntries.push(toHarEntry(entry));
+  const har = {
+    log: {
+      version: '1.2',
+      creator: { name: 'mydevices-cli', version: getCurrentVersion() },
+      entries: harEntries,
+    },
+  };
+  writeFileSync(settings.file, JSON.stringify(har, null, 2));
+}
+
+/**
+ * Record every request made by an axios instance to the trace file, if one
+ * is set. Attach before any other interceptors so each attempt is seen with
+ * its final headers and before errors are converted.
+ */
+export function traceClient(client: AxiosInstance): void {
+  const settings = getTraceSettings();
+  if (!settings) return;
+
+  client.interceptors.request.use((config) => {
+    config.traceStart = Date.now();
+    return config;
+  });
+
+  client.interceptors.response.use(
+    (response) => {
+      writeEntry(settings, buildEntry(client, response.config, response));
+      return response;
+    },
+    (error) => {
+      if (axios.isAxiosError(error) && error.config) {
+        writeEntry(settings, buildEntry(client, error.config, error.response, error.message));
+      }
+      return Promise.reject(error);
+    }
+  );
+}
@@ -0,0 +1,118 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { format } from 'util';
+import { getRuntimeOptions } from './global-options.js';
+import { getRecordedResult, recordResult, info } from './output.js';
+import { parseQuery, testQuery } from './query.js';
+
+/**
+ * --watch re-runs a read-only command by parsing the command line again.
+ * Each run's stdout is captured as a frame, then drawn over the previous
+ * one with the cells that changed highlighted. Errors still end the run.
+ */
+
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+
+let frame: string[] | null = null;
+let previousLines: string[] | null = null;
+let looping = false;
+
+const consoleLog = console.log;
+const stdoutWrite = process.stdout.write;
+
+function startFrame(): void {
+  frame = [];
+  recordResult(undefined);
+  // Bun's console.log does not go through process.stdout.write, so both are captured
+  console.log = (...args: unknown[]) => {
+    frame?.push(format(...args) + '\n');
+  };
+  process.stdout.write = ((chunk: string | Uint8Array) => {
+    frame?.push(typeof chunk === 'string' ? chunk : Buffer.from(chunk).toString('utf8'));
+    return true;
+  }) as typeof process.stdout.write;
+}
+
+function endFrame(): string {
+  console.log = consoleLog;
+  process.stdout.write = stdoutWrite;
+  const text = frame?.join('') ?? '';
+  frame = null;
+  return text;
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+/**
+ * Table rows are compared cell by cell, other lines word by word
+ */
+function splitCells(line: string): string[] {
+  return line.includes('│') ? line.split(/(│)/) : line.split(/(\s+)/);
+}
+
+function highlightChanges(line: string, previous: string | undefined): string {
+  const previousCells = previous === undefined ? [] : splitCells(previous).map(stripAnsi);
+  return splitCells(line)
+    .map((cell, i) => {
+      const plain = stripAnsi(cell);
+      if (plain.trim() === '' || plain === '│' || plain === previousCells[i]) {
+        return cell;
+      }
+      // Highlight the content, not the padding around it
+      return cell.replace(/\S(?:.*\S)?/, (content) => chalk.inverse(content));
+    })
+    .join('');
+}
+
+function drawFrame(text: string): void {
+  const { watch } = getRuntimeOptions();
+  const lines = text.replace(/\n$/, '').split('\n');
+  const title = chalk.gray(`Every ${watch}s: mydevices ${process.argv.slice(2).join(' ')}  ${new Date().toLocaleTimeString()}`);
+
+  if (process.stdout.isTTY) {
+    const shown = previousLines ? lines.map((line, i) => highlightChanges(line, previousLines![i])) : lines;
+    // Home the cursor and clear the screen, like watch(1)
+    process.stdout.write(`\x1b[H\x1b[2J${title}\n\n${shown.join('\n')}\n`);
+  } else {
+    process.stdout.write(`${previousLines ? '\n' : ''}${title}\n${lines.join('\n')}\n`);
+  }
+  previousLines = lines;
+}
+
+function untilMet(): boolean {
+  const { until } = getRuntimeOptions();
+  return until !== undefined && testQuery(parseQuery(until), getRecordedResult() ?? null);
+}
+
+function sleep(seconds: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+}
+
+/**
+ * Capture and redraw the output of commands run with --watch, re-running
+ * them until Ctrl-C or the --until condition. Register after the global
+ * options, whose preAction hook sets the runtime options used here.
+ */
+export function registerWatch(program: Command): void {
+  program.hook('preAction', () => {
+    if (getRuntimeOptions().watch !== undefined) {
+      startFrame();
+    }
+  });
+
+  program.hook('postAction', async () => {
+    if (frame === null) return;
+    drawFrame(endFrame());
+
+    // Re-runs happen inside the first run's hook; nested runs only draw
+    if (looping) return;
+    looping = true;
+    while (!untilMet()) {
+      await sleep(getRuntimeOptions().watch!);
+      await program.parseAsync(process.argv);
+    }
+    info('Stopped watching: --until condition met');
+  });
+}
@@ -0,0 +1,76 @@
+/**
+ * Minimal YAML writer for command output. Covers the JSON data model only
+ * (objects, arrays, strings, numbers, booleans, null); anything that could
+ * be misread as another type is written as a double-quoted JSON string,
+ * which is valid YAML.
+ */
+
+// Plain scalars YAML 1.1 parsers would read as something other than a string
+const RESERVED = /^(true|false|yes|no|on|off|y|n|null|~)$/i;
+const NUMERIC = /^[-+]?(\.?\d[\d_]*(\.\d*)?([eE][-+]?\d+)?|\.inf|\.nan|0x[0-9a-fA-F]+|0o[0-7]+)$/i;
+
+function formatString(value: string): string {
+  const plain =
+    value !== '' &&
+    value === value.trim() &&
+    /^[A-Za-z0-9_./(]/.test(value) &&
+    !/[\n\t"'#]|: |:$/.test(value) &&
+    !RESERVED.test(value) &&
+    !NUMERIC.test(value);
+  return plain ? value : JSON.stringify(value);
+}
+
+function formatScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'string') return formatString(value);
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'null';
+  if (typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return '[]';
+  if (typeof value === 'object') return '{}';
+  return formatString(String(value));
+}
+
+/**
+ * Non-empty arrays and objects are written as blocks; everything else inline
+ */
+function isBlock(value: unknown): value is object {
+  if (Array.isArray(value)) return value.length > 0;
+  return typeof value === 'object' && value !== null && Object.keys(value).length > 0;
+}
+
+function writeBlock(value: object, pad: string): string {
+  let yaml = '';
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (isBlock(item) && !Array.isArray(item)) {
+        // First key shares the line with the dash
+        const nested = writeBlock(item, pad + '  ');
+        yaml += pad + '- ' + nested.slice(pad.length + 2);
+      } else if (isBlock(item)) {
+        yaml += `${pad}-\n${writeBlock(item, pad + '  ')}`;
+      } else {
+        yaml += `${pad}- ${formatScalar(item)}\n`;
+      }
+    }
+    return yaml;
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    if (item === undefined) continue;
+    if (isBlock(item)) {
+      yaml += `${pad}${formatString(key)}:\n${writeBlock(item, pad + '  ')}`;
+    } else {
+      yaml += `${pad}${formatString(key)}: ${formatScalar(item)}\n`;
+    }
+  }
+  return yaml;
+}
+
+/**
+ * Serialize a JSON-compatible value as a YAML document (without a trailing newline)
+ */
+export function toYaml(value: unknown): string {
+  const yaml = isBlock(value) ? writeBlock(value, '') : formatScalar(value);
+  return yaml.replace(/\n$/, '');
+}
@@ -15,6 +15,15 @@ export interface TokenResponse {
   token_type: string;
 }
 
+export interface DeviceAuthorization {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  verification_uri_complete?: string;
+  expires_in: number;
+  interval?: number;
+}
+
 export interface AuthConfig {
   realm: string;
   clientId: string;
@@ -22,6 +31,7 @@ export interface AuthConfig {
   accessToken?: string;
   refreshToken?: string;
   expiresAt?: number;
+  refreshExpiresAt?: number;
 }
 
 // Company types
@@ -396,6 +406,8 @@ export interface GlobalOptions {
 export interface ListOptions extends GlobalOptions {
   limit?: number;
   page?: number;
+  all?: boolean;
+  maxItems?: string;
 }
 
 // Template Export/Import types